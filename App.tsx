@@ -1,192 +1,771 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { extractTimesheetData } from './services/geminiService';
-import { TimesheetData, AppState } from './types';
+import { extractTimesheetData, timesheetFromExtraction } from './services/geminiService';
+import { TimesheetData, AppState, CatalogueCategory, CatalogueItem, HistoryFilter, LabourRow, PhotoAttachment, QueuedScan, SavedTimesheet, SheetSerial, SignatureMetaMap, SignatureRole, SignatureVector, SignatureVectorMap, SupervisorProfile, TimesheetDraft, TimesheetItem, TimesheetStatus, WasteRecord } from './types';
 import { SignaturePad } from './components/SignaturePad';
+import { buildTimesheetPdf, loadImageAsDataUrl } from './services/pdfService';
+import { WASTE_FACILITIES, WASTE_TYPES, migrateTimesheetData, newId } from './services/timesheetModel';
+import { applyCalculatedTotals, calculateCrewMinutes, isCalculatedTotal, minutesToHoursString } from './services/timeEngine';
+import { issueMessage, needsConfirmation, validateTimesheet, validationErrors } from './services/validationService';
+import { catalogueByCategory, layoutResourceGrid, loadCatalogue, matchesCatalogueItem, saveCatalogue } from './services/catalogueService';
+import { CatalogueSettings } from './components/CatalogueSettings';
+import { HistoryPanel } from './components/HistoryPanel';
+import { ProfileSettings } from './components/ProfileSettings';
+import { PayrollReport } from './components/PayrollReport';
+import { exportHistoryCsv, exportHistoryXlsx } from './services/exportService';
+import { JobImportPicker } from './components/JobImportPicker';
+import { ImportedJob, parseJobsFile } from './services/jobImportService';
+import { ScanQueuePanel } from './components/ScanQueuePanel';
+import { PhotoAttachments } from './components/PhotoAttachments';
+import { CameraCapture } from './components/CameraCapture';
+import { prepareScanFile } from './services/cardScan';
+import { ShareDraft, buildShareDraft, canShareFiles, downloadEmlDraft, isShareCancelled, mailtoUrl, shareFile } from './services/shareService';
+import { downloadBlob } from './services/csv';
+import { SendDialog } from './components/SendDialog';
+import { RevisionHistory } from './components/RevisionHistory';
+import { SIGNATURE_ROLES, createSignatureMeta, getSignatureLocation, invalidSignatureRoles, signatureStamp } from './services/signatureService';
+import { signatureToSvg } from './services/signatureStrokes';
+import { loadSheetDateSettings } from './services/dateFormat';
+import { downscaleImage, readAsDataUrl } from './services/imageUtils';
+import { enqueueScan, fillFromScan, isNetworkError, listQueuedScans, processScanQueue, removeQueuedScan } from './services/scanQueue';
+import { getActiveProfile, loadProfiles, saveActiveProfileId, saveProfiles } from './services/profileService';
+import { countHistory, deleteHistoryEntry, getHistoryEntry, migrateLegacyHistory, putHistoryEntry, searchHistory } from './services/historyStore';
+import { isLockedStatus, statusForSave, statusOf, transitionStatus } from './services/statusService';
+import { archiveRevision, deleteRevisions, listRevisions } from './services/revisionStore';
+import { deleteRemoteTimesheet, pushTimesheet, syncHistory } from './services/syncService';
+import { allocateSerial, ensureSerialPool } from './services/serialService';
+import { Language, LANGUAGES, getLanguage, setLanguage, statusLabel, t } from './services/i18n';
+import { SheetDatePanel } from './components/SheetDatePanel';
+import { DraftsPanel } from './components/DraftsPanel';
+import { deleteDraft, draftKey, listDrafts, putDraft, sheetSnapshot } from './services/draftStore';
 import domtoimage from "dom-to-image";
 
 
-const SUPERVISOR_FIXED = "GABRIEL HENRIQUE DA SILVA";
 const LOGO_URL = "/assets/AES-Logo (1).png";
-
-interface SavedTimesheet {
-  id: string;
-  serial: number;
-  data: TimesheetData;
-  timestamp: number;
-  mySignature: string | null;
-  supervisorSignature: string | null;
-}
+const DRAFT_SAVE_DELAY_MS = 400;
+const EDIT_SECTIONS: { category: CatalogueCategory; title: string; color: string }[] = [
+  { category: 'material', title: 'MATERIAL', color: 'text-blue-600' },
+  { category: 'plant', title: 'PLANT & EQUIPMENT', color: 'text-orange-600' },
+  { category: 'environmental', title: 'ENVIRONMENTAL & OTHER', color: 'text-green-600' },
+];
 
 const App: React.FC = () => {
-  const [appState, setAppState] = useState<AppState>(AppState.IDLE);
+  // ✅ primeiro acesso: escolher/criar o perfil do supervisor
+  const [appState, setAppState] = useState<AppState>(() => (loadProfiles().length ? AppState.IDLE : AppState.PROFILES));
   const [data, setData] = useState<TimesheetData | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [mySignature, setMySignature] = useState<string | null>(null);
   const [supervisorSignature, setSupervisorSignature] = useState<string | null>(null);
-  const [serialNumber, setSerialNumber] = useState<number>(21215);
+  // ✅ quem/quando/onde assinou + hash da folha naquele momento
+  const [signatureMeta, setSignatureMeta] = useState<SignatureMetaMap>({});
+  const [signatureVectors, setSignatureVectors] = useState<SignatureVectorMap>({});
+  const [invalidSignatures, setInvalidSignatures] = useState<SignatureRole[]>([]);
+  const [recordLocation, setRecordLocation] = useState(true);
+  // ✅ serial e id ficam presos à folha: reexportar/editar não gera outro
+  const [serialNumber, setSerialNumber] = useState<SheetSerial | null>(null);
+  // provisório que saiu impresso antes do sync trocar o serial: continua na folha
+  const [provisionalSerial, setProvisionalSerial] = useState<string | null>(null);
+  const [sheetId, setSheetId] = useState<string | null>(null);
+  // ✅ status do documento; assinada em diante os campos travam
+  const [sheetStatus, setSheetStatus] = useState<TimesheetStatus>('draft');
+  const [revision, setRevision] = useState(1);
+  const locked = isLockedStatus(sheetStatus);
+  const [photos, setPhotos] = useState<PhotoAttachment[]>([]);
+  const [printPhotos, setPrintPhotos] = useState(true);
   const [history, setHistory] = useState<SavedTimesheet[]>([]);
-  const [breakValue, setBreakValue] = useState<string>("");
+  const [historyCount, setHistoryCount] = useState(0);
+  const [historyFilter, setHistoryFilter] = useState<HistoryFilter>({});
+  const [syncTick, setSyncTick] = useState(0);
+  const [catalogue, setCatalogue] = useState<CatalogueItem[]>(loadCatalogue);
+  const [profiles, setProfiles] = useState<SupervisorProfile[]>(loadProfiles);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(() => getActiveProfile()?.id ?? null);
+  const [pendingExport, setPendingExport] = useState<(() => void) | null>(null);
+  const [importedJobs, setImportedJobs] = useState<ImportedJob[] | null>(null);
+  const [cameraOpen, setCameraOpen] = useState(false);
+  const [sendOpen, setSendOpen] = useState(false);
+  const [preparedSend, setPreparedSend] = useState<{ file: File; draft: ShareDraft; entry: SavedTimesheet } | null>(null);
+  const [revisionList, setRevisionList] = useState<SavedTimesheet[] | null>(null);
+  const [scanQueue, setScanQueue] = useState<QueuedScan[]>([]);
+  // ✅ idioma no estado: trocar re-renderiza tudo com o catálogo novo
+  const [language, setLanguageState] = useState<Language>(getLanguage);
+  // print offline ligado à folha aberta (preenchida à mão enquanto espera)
+  const [queuedScanId, setQueuedScanId] = useState<string | null>(null);
+  const queuedScanRef = useRef<string | null>(null);
+  // ✅ rascunho da folha aberta: chave gravada por último, chave da sessão sem job e o último conteúdo exportado
+  const [drafts, setDrafts] = useState<TimesheetDraft[]>([]);
+  const draftKeyRef = useRef<string | null>(null);
+  const sessionKeyRef = useRef(`new:${newId()}`);
+  const savedSnapshotRef = useRef<string | null>(null);
   const timesheetRef = useRef<HTMLDivElement>(null);
 
-  // ✅ Parse time inputs like "7:30", "07:30", "7.5" (hours), "7"
-const parseToMinutes = (value: string): number | null => {
-  const v = (value || "").trim();
-  if (!v) return null;
-
-  // HH:MM
-  if (v.includes(":")) {
-    const [hStr, mStr] = v.split(":");
-    const h = Number(hStr);
-    const m = Number(mStr);
-    if (!Number.isFinite(h) || !Number.isFinite(m)) return null;
-    if (m < 0 || m >= 60) return null;
-    return Math.round(h * 60 + m);
-  }
+  useEffect(() => {
+    // ✅ histórico antigo do localStorage -> IndexedDB (uma vez)
+    migrateLegacyHistory()
+      .catch(err => console.error("History migration error:", err))
+      .then(() => refreshHistory())
+      .then(() => syncNow());
+    runScanQueue();
+    refreshDrafts();
+
+    // ✅ voltou a internet: envia o que ficou pendente e lê os prints da fila
+    const onOnline = () => {
+      syncNow();
+      runScanQueue();
+    };
+    window.addEventListener('online', onOnline);
+    return () => window.removeEventListener('online', onOnline);
+  }, []);
 
-  // Decimal hours (e.g. 7.5) or integer (e.g. 8)
-  const hours = Number(v.replace(",", "."));
-  if (!Number.isFinite(hours)) return null;
-  return Math.round(hours * 60);
-};
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
 
-// ✅ Format minutes to decimal hours string (e.g. 450 -> "7.5", 480 -> "8")
-const minutesToHoursString = (mins: number): string => {
-  const hours = mins / 60;
-  const fixed = hours.toFixed(2);
-  // remove trailing zeros
-  return fixed.replace(/\.00$/, "").replace(/(\.\d)0$/, "$1");
-};
+  const changeLanguage = (next: Language) => {
+    setLanguage(next);
+    setLanguageState(next);
+  };
+
+  const linkQueuedScan = (id: string | null) => {
+    queuedScanRef.current = id;
+    setQueuedScanId(id);
+  };
+
+  const refreshScanQueue = async () => {
+    try {
+      setScanQueue(await listQueuedScans());
+    } catch (err) {
+      console.error("Scan queue load error:", err);
+    }
+  };
+
+  // ✅ extração dos prints offline; o da folha aberta completa os campos vazios
+  const runScanQueue = async () => {
+    try {
+      const done = navigator.onLine ? await processScanQueue() : [];
+      const linked = done.find(scan => scan.id === queuedScanRef.current);
+      if (linked?.result) {
+        const scanned = linked.result;
+        setData(prev => (prev ? fillFromScan(prev, scanned) : prev));
+        await removeQueuedScan(linked.id);
+        linkQueuedScan(null);
+      }
+    } catch (err) {
+      console.error("Scan queue error:", err);
+    }
+    await refreshScanQueue();
+  };
 
+  const openQueuedScan = async (scan: QueuedScan) => {
+    if (!scan.result) return;
+    startNewSheet(scan.result);
+    await removeQueuedScan(scan.id);
+    await refreshScanQueue();
+  };
+
+  const discardQueuedScan = async (id: string) => {
+    await removeQueuedScan(id);
+    if (queuedScanRef.current === id) linkQueuedScan(null);
+    await refreshScanQueue();
+  };
+
+  // ✅ sincroniza com /api/timesheets; offline fica só no IndexedDB
+  const syncNow = async () => {
+    ensureSerialPool().catch(err => console.warn("Serial prefetch skipped:", err));
+    try {
+      if (await syncHistory()) setSyncTick(t => t + 1);
+    } catch (err) {
+      console.warn("Sync skipped:", err);
+    }
+  };
+
+  const refreshHistory = async (filter: HistoryFilter = historyFilter) => {
+    try {
+      setHistory(await searchHistory(filter));
+      setHistoryCount(await countHistory());
+    } catch (err) {
+      console.error("History load error:", err);
+    }
+  };
 
   useEffect(() => {
-    const savedSerial = localStorage.getItem('aes_timesheet_serial');
-    if (savedSerial) setSerialNumber(parseInt(savedSerial, 10));
+    refreshHistory(historyFilter);
+  }, [historyFilter, syncTick]);
 
-    const savedHistory = localStorage.getItem('aes_timesheet_history');
-    if (savedHistory) setHistory(JSON.parse(savedHistory));
-  }, []);
+  // ✅ folha aberta cujo serial provisório foi trocado no sync
+  useEffect(() => {
+    setProvisionalSerial(null);
+    if (!sheetId) return;
+    getHistoryEntry(sheetId)
+      .then(stored => {
+        if (!stored) return;
+        setSerialNumber(stored.serial);
+        setProvisionalSerial(stored.provisionalSerial ?? null);
+      })
+      .catch(err => console.warn("Serial refresh skipped:", err));
+  }, [syncTick, sheetId]);
+
+  const refreshDrafts = async () => {
+    try {
+      setDrafts(await listDrafts());
+    } catch (err) {
+      console.error("Drafts load error:", err);
+    }
+  };
 
-  const saveToHistory = () => {
+  // ✅ autosave: grava o rascunho da folha aberta; igual ao último exportado = apaga
+  const autosaveDraft = async () => {
     if (!data) return;
-    const newEntry: SavedTimesheet = {
-      id: Math.random().toString(36).substr(2, 9),
-      serial: serialNumber,
+    const key = draftKey(sheetId, sessionKeyRef.current);
+    const previous = draftKeyRef.current;
+    const content = { data, mySignature, supervisorSignature, photos, printPhotos, signatureMeta, signatureVectors };
+    try {
+      if (sheetSnapshot(content) === savedSnapshotRef.current) {
+        draftKeyRef.current = null;
+        await Promise.all(Array.from(new Set([previous, key])).filter((id): id is string => !!id).map(deleteDraft));
+        return;
+      }
+      await putDraft({ id: key, sheetId, serial: serialNumber, status: sheetStatus, revision, ...content, queuedScanId, updatedAt: Date.now() });
+      draftKeyRef.current = key;
+      // 1ª exportação: o rascunho passa da sessão para o id da folha
+      if (previous && previous !== key) await deleteDraft(previous);
+    } catch (err) {
+      console.error("Draft save error:", err);
+    }
+  };
+
+  useEffect(() => {
+    if (!data) return;
+    const timer = setTimeout(autosaveDraft, DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [data, mySignature, supervisorSignature, signatureMeta, signatureVectors, photos, printPhotos, sheetId, serialNumber, queuedScanId, sheetStatus, revision]);
+
+  const resumeDraft = (draft: TimesheetDraft) => {
+    setData(migrateTimesheetData(draft.data, catalogue));
+    setSheetId(draft.sheetId);
+    setSerialNumber(draft.serial);
+    setSheetStatus(draft.status);
+    setRevision(draft.revision);
+    setMySignature(draft.mySignature);
+    setSupervisorSignature(draft.supervisorSignature);
+    setSignatureMeta(draft.signatureMeta);
+    setSignatureVectors(draft.signatureVectors);
+    setPhotos(draft.photos);
+    setPrintPhotos(draft.printPhotos);
+    // print ainda na fila: continua ligado à folha
+    linkQueuedScan(scanQueue.some(s => s.id === draft.queuedScanId && s.status !== 'done') ? draft.queuedScanId : null);
+    draftKeyRef.current = draft.id;
+    sessionKeyRef.current = draft.id;
+    savedSnapshotRef.current = null;
+    setAppState(AppState.EDITING);
+  };
+
+  const discardDraft = async (id: string) => {
+    await deleteDraft(id);
+    await refreshDrafts();
+  };
+
+  // ✅ sair grava o rascunho na hora (sem esperar o autosave)
+  const closeSheet = async () => {
+    await autosaveDraft();
+    setAppState(AppState.IDLE);
+    setData(null);
+    setSheetId(null);
+    setSerialNumber(null);
+    linkQueuedScan(null);
+    setError(null);
+    draftKeyRef.current = null;
+    await refreshDrafts();
+  };
+
+  // ✅ primeira gravação reserva o serial; as próximas atualizam a mesma entrada
+  const saveToHistory = async (): Promise<SavedTimesheet | null> => {
+    if (!data) return null;
+
+    // travada: reexporta como está; editável: status pelas assinaturas e erros
+    const fullySigned = !!(mySignature && supervisorSignature) && invalidSignatures.length === 0;
+    const status = locked ? sheetStatus : statusForSave(fullySigned, errors.some(e => !e.field.startsWith('signature.')));
+
+    // o serial gravado vale mais que o da tela: o sync pode ter trocado um provisório
+    const saved = sheetId ? await getHistoryEntry(sheetId) : null;
+    const entry: SavedTimesheet = {
+      id: sheetId ?? newId(),
+      serial: saved?.serial ?? serialNumber ?? await allocateSerial(),
+      provisionalSerial: saved?.provisionalSerial,
+      status,
+      revision,
       data,
       timestamp: Date.now(),
       mySignature,
-      supervisorSignature
+      supervisorSignature,
+      photos,
+      printPhotos,
+      signatureMeta,
+      signatureVectors
     };
-    const updatedHistory = [newEntry, ...history];
-    setHistory(updatedHistory);
-    localStorage.setItem('aes_timesheet_history', JSON.stringify(updatedHistory));
+    // ✅ conteúdo mudou desde o último salvo: a versão guardada vira revisão
+    // (reexportar uma folha já travada no histórico não gera revisão)
+    const stored = saved && !(locked && isLockedStatus(statusOf(saved))) ? saved : null;
+    if (stored && sheetSnapshot(stored) !== sheetSnapshot(entry)) {
+      await archiveRevision(stored);
+      entry.revision = Math.max(revision, (stored.revision ?? 1) + 1);
+    }
+
+    setSheetId(entry.id);
+    setSerialNumber(entry.serial);
+    setSheetStatus(status);
+    setRevision(entry.revision);
+    await putHistoryEntry(entry);
+    savedSnapshotRef.current = sheetSnapshot(entry);
+    await refreshHistory();
+    pushTimesheet(entry).catch(err => console.warn("Sync pending:", err));
+    return entry;
+  };
+
+  // ✅ folha assinada que saiu para o cliente
+  const markSubmitted = async (entry: SavedTimesheet) => {
+    if (statusOf(entry) !== 'signed') return;
+    const submitted = { ...transitionStatus(entry, 'submitted'), timestamp: Date.now() };
+    await putHistoryEntry(submitted);
+    if (submitted.id === sheetId) setSheetStatus('submitted');
+    await refreshHistory();
+    pushTimesheet(submitted).catch(err => console.warn("Sync pending:", err));
+  };
+
+  /**
+   * Emenda: a folha volta a ser editável como a próxima revisão, sem as
+   * assinaturas antigas. A versão assinada vai para `revisions` como
+   * "amended" quando a emenda for salva (até lá fica só no rascunho).
+   */
+  const amendSheet = async () => {
+    if (!locked) return;
+    try {
+      const current = sheetId ? await getHistoryEntry(sheetId) : null;
+      setSheetStatus('draft');
+      setRevision((current?.revision ?? revision) + 1);
+      setMySignature(null);
+      setSupervisorSignature(null);
+      setSignatureMeta({});
+      setSignatureVectors({});
+      savedSnapshotRef.current = null;
+    } catch (err) {
+      console.error("Amend error:", err);
+      setError(t('error.amend'));
+    }
+  };
+
+  // ✅ revisões da folha aberta: as arquivadas + a do histórico (vence em caso de empate)
+  const openRevisions = async () => {
+    if (!sheetId) return;
+    try {
+      const [archived, current] = await Promise.all([listRevisions(sheetId), getHistoryEntry(sheetId)]);
+      const byRevision = new Map(archived.map(r => [r.revision ?? 1, r]));
+      if (current) byRevision.set(current.revision ?? 1, current);
+      setRevisionList([...byRevision.values()].sort((a, b) => (a.revision ?? 1) - (b.revision ?? 1)));
+    } catch (err) {
+      console.error("Revisions error:", err);
+      setError(t('error.revisions'));
+    }
+  };
+
+  /**
+   * Restaura uma revisão antiga como a próxima revisão editável; a atual só
+   * é arquivada quando a restauração for salva, como numa emenda.
+   */
+  const restoreRevision = async (entry: SavedTimesheet) => {
+    const current = sheetId ? await getHistoryEntry(sheetId) : null;
+    setData(migrateTimesheetData(entry.data, catalogue));
+    setSheetStatus('draft');
+    setRevision((current?.revision ?? revision) + 1);
+    setMySignature(entry.mySignature);
+    setSupervisorSignature(entry.supervisorSignature);
+    setSignatureMeta(entry.signatureMeta ?? {});
+    setSignatureVectors(entry.signatureVectors ?? {});
+    setPhotos(entry.photos ?? []);
+    setPrintPhotos(entry.printPhotos ?? true);
+    savedSnapshotRef.current = null;
+    setRevisionList(null);
   };
 
-  const deleteFromHistory = (id: string) => {
-    const updatedHistory = history.filter(item => item.id !== id);
-    setHistory(updatedHistory);
-    localStorage.setItem('aes_timesheet_history', JSON.stringify(updatedHistory));
+  const deleteFromHistory = async (id: string) => {
+    await deleteHistoryEntry(id);
+    await deleteDraft(id);
+    await deleteRevisions(id);
+    await refreshDrafts();
+    await refreshHistory();
+    deleteRemoteTimesheet(id).catch(err => console.warn("Sync pending:", err));
+  };
+
+  const exportHistory = async (entries: SavedTimesheet[], format: 'csv' | 'xlsx') => {
+    try {
+      if (format === 'csv') exportHistoryCsv(entries, catalogue);
+      else await exportHistoryXlsx(entries, catalogue);
+    } catch (err) {
+      console.error(err);
+      setError(t('error.exportSpreadsheet'));
+    }
   };
 
   const loadFromHistory = (entry: SavedTimesheet) => {
-    setData(entry.data);
+    // alterações não exportadas dessa folha: abre o rascunho
+    const draft = drafts.find(d => d.id === entry.id);
+    if (draft) return resumeDraft(draft);
+
+    const loaded = migrateTimesheetData(entry.data, catalogue);
+    setData(loaded);
+    setSheetId(entry.id);
     setSerialNumber(entry.serial);
+    setSheetStatus(statusOf(entry));
+    setRevision(entry.revision ?? 1);
     setMySignature(entry.mySignature);
     setSupervisorSignature(entry.supervisorSignature);
+    setSignatureMeta(entry.signatureMeta ?? {});
+    setSignatureVectors(entry.signatureVectors ?? {});
+    setPhotos(entry.photos ?? []);
+    setPrintPhotos(entry.printPhotos ?? true);
+    draftKeyRef.current = null;
+    savedSnapshotRef.current = sheetSnapshot({ ...entry, data: loaded });
+    setAppState(AppState.EDITING);
+  };
+
+  // ✅ lista de jobs do sistema de agenda (CSV/JSON): sem passar pela IA
+  const handleJobImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setError(null);
+
+    try {
+      const jobs = parseJobsFile(file.name, await file.text());
+      if (jobs.length === 0) setError(t('error.noJobs'));
+      else setImportedJobs(jobs);
+    } catch (err) {
+      console.error("Job import error:", err);
+      setError(t('error.readJobs'));
+    }
+  };
+
+  // ✅ folha nova: sem id/serial ainda; a assinatura salva do perfil só entra assinando (signWithSaved)
+  const startNewSheet = (next: TimesheetData) => {
+    setData({ ...next, dateFormat: next.dateFormat ?? loadSheetDateSettings() });
+    setSheetId(null);
+    setSerialNumber(null);
+    setSheetStatus('draft');
+    setRevision(1);
+    setMySignature(null);
+    setSupervisorSignature(null);
+    setSignatureMeta({});
+    setSignatureVectors({});
+    setPhotos([]);
+    setPrintPhotos(true);
+    linkQueuedScan(null);
+    draftKeyRef.current = null;
+    sessionKeyRef.current = `new:${newId()}`;
+    savedSnapshotRef.current = null;
     setAppState(AppState.EDITING);
   };
 
+  // ✅ sem sinal: print vai para a fila e a folha abre para preencher à mão
+  const queueScanForLater = async (images: string[]) => {
+    const scan = await enqueueScan(images);
+    startNewSheet(timesheetFromExtraction({}));
+    linkQueuedScan(scan.id);
+    await refreshScanQueue();
+  };
+
+  // ✅ fotos reduzidas antes de guardar; hora = da câmera/arquivo quando existir
+  const addPhotos = async (files: File[]) => {
+    try {
+      const added = await Promise.all(
+        files.map(async (file): Promise<PhotoAttachment> => ({
+          id: newId(),
+          dataUrl: await downscaleImage(await readAsDataUrl(file)),
+          caption: "",
+          takenAt: file.lastModified || Date.now(),
+        }))
+      );
+      setPhotos(prev => [...prev, ...added]);
+    } catch (err) {
+      console.error("Photo error:", err);
+      setError(t('error.attachPhoto'));
+    }
+  };
+
+  const startFromJob = (job: ImportedJob) => {
+    setImportedJobs(null);
+    startNewSheet(timesheetFromExtraction(job));
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
   if (loading) return; // 🚫 evita múltiplos envios (429)
   
-  const file = e.target.files?.[0];
+  // ✅ vários prints/PDFs do mesmo job; a ordem escolhida define quem vence no merge
+  const files = Array.from(e.target.files || []);
   e.target.value = ""; // ✅ evita disparo duplo com o mesmo arquivo
-  if (!file) return;
+  if (files.length === 0) return;
 
   setLoading(true);
   setAppState(AppState.SCANNING);
   setError(null);
 
+  let images: string[];
   try {
-    const reader = new FileReader();
-    reader.onloadend = async () => {
-      const base64 = reader.result as string;
-      try {
-        const result = await extractTimesheetData(base64);
-        setData({ ...result, supervisorName: SUPERVISOR_FIXED });
-        setAppState(AppState.EDITING);
-      } catch (err: any) {
-              console.error("Gemini error:", err);
-              const msg = err?.message ? String(err.message) : String(err);
-              setError(`Erro na captura do print: ${msg}`);
-              setAppState(AppState.IDLE);
-
-      } finally {
-        setLoading(false);
-      }
-    };
-    reader.readAsDataURL(file);
+    // ✅ imagens grandes são reduzidas antes de ir para o /api/extract
+    images = await Promise.all(files.map(prepareScanFile));
   } catch (err) {
     setLoading(false);
-    setError("Falha ao ler o arquivo.");
+    setAppState(AppState.IDLE);
+    setError(t('error.readFile'));
+    return;
+  }
+
+  await scanImages(images);
+};
+
+  // ✅ fotos da câmera já chegam recortadas, endireitadas e reduzidas
+  const handleCameraCapture = async (images: string[]) => {
+    setCameraOpen(false);
+    if (loading || images.length === 0) return;
+    setLoading(true);
+    setAppState(AppState.SCANNING);
+    setError(null);
+    await scanImages(images);
+  };
+
+  const scanImages = async (images: string[]) => {
+  try {
+    if (!navigator.onLine) {
+      await queueScanForLater(images);
+      return;
+    }
+    const result = await extractTimesheetData(images);
+    startNewSheet(result);
+  } catch (err: any) {
+    if (isNetworkError(err)) {
+      await queueScanForLater(images).catch(queueErr => {
+        console.error("Scan queue error:", queueErr);
+        setError(t('error.queueScan'));
+        setAppState(AppState.IDLE);
+      });
+      return;
+    }
+    console.error("Gemini error:", err);
+    const msg = err?.message ? String(err.message) : String(err);
+    setError(t('error.scanCapture', { message: msg }));
+    setAppState(AppState.IDLE);
+  } finally {
+    setLoading(false);
   }
 };
 
 
   useEffect(() => {
-  if (!data) return;
+    if (!data) {
+      setInvalidSignatures([]);
+      return;
+    }
+    let cancelled = false;
+    invalidSignatureRoles(data, signatureMeta)
+      .then(roles => {
+        if (cancelled) return;
+        setInvalidSignatures(roles);
+        // ✅ segunda assinatura válida capturada: a folha trava na hora, sem esperar o salvar
+        const bothSigned = !!(mySignature && supervisorSignature && signatureMeta.client && signatureMeta.supervisor);
+        if (!locked && bothSigned && roles.length === 0) setSheetStatus('signed');
+      })
+      .catch(err => console.error("Hash error:", err));
+    return () => { cancelled = true; };
+  }, [data, signatureMeta, mySignature, supervisorSignature, locked]);
+
+  const setSignatureImage = (role: SignatureRole, image: string | null) =>
+    role === 'client' ? setMySignature(image) : setSupervisorSignature(image);
+
+  // ✅ assinar grava nome, hora, hash da folha e (se permitido) o GPS
+  const signAs = async (role: SignatureRole, image: string, vector?: SignatureVector | null) => {
+    if (!data || locked) return;
+    setSignatureImage(role, image);
+    setSignatureVectors(prev => ({ ...prev, [role]: vector ?? undefined }));
+    const meta = await createSignatureMeta(data, role === 'client' ? data.clientRepName : data.supervisorName);
+    setSignatureMeta(prev => ({ ...prev, [role]: meta }));
+    if (!recordLocation) return;
+
+    const location = await getSignatureLocation();
+    if (!location) return;
+    setSignatureMeta(prev =>
+      prev[role]?.signedAt === meta.signedAt ? { ...prev, [role]: { ...meta, location } } : prev
+    );
+  };
 
-  const startMins = parseToMinutes(data.startTime || "");
-  const finishMins = parseToMinutes(data.finishTime || "");
-  if (startMins === null || finishMins === null) return;
+  // assinatura salva do perfil: vale só com o toque do supervisor, que gera o carimbo como qualquer outra
+  const savedSignature = getActiveProfile(profiles)?.signature ?? null;
+  const signWithSaved = () => {
+    const profile = getActiveProfile(profiles);
+    if (profile?.signature) signAs('supervisor', profile.signature, profile.signatureVector);
+  };
 
-  // if finish < start, assume crossed midnight
-  let diff = finishMins - startMins;
-  if (diff < 0) diff += 24 * 60;
+  // ✅ assinatura da folha em SVG (vetor), como a do perfil
+  const downloadSignatureSvg = (role: SignatureRole) => {
+    const vector = signatureVectors[role];
+    if (!vector) return;
+    downloadBlob(new Blob([signatureToSvg(vector)], { type: "image/svg+xml" }), `assinatura-${role}-${serialNumber ?? "rascunho"}.svg`);
+  };
 
-  const breakMins = parseToMinutes(breakValue || "") ?? 0;
-  const finalMins = Math.max(0, diff - breakMins);
+  const openSigning = () => {
+    if (!locked) setAppState(AppState.SIGNING);
+  };
 
-  const calculated = minutesToHoursString(finalMins);
+  const clearSignature = (role: SignatureRole) => {
+    if (locked) return;
+    setSignatureImage(role, null);
+    setSignatureMeta(prev => ({ ...prev, [role]: undefined }));
+    setSignatureVectors(prev => ({ ...prev, [role]: undefined }));
+  };
+
+  // carimbo sob a assinatura na folha (sai também no JPG)
+  const signatureStampLine = (role: SignatureRole) => {
+    const meta = signatureMeta[role];
+    if (!meta) return null;
+    const invalid = invalidSignatures.includes(role);
+    return (
+      <span className={`text-[5px] leading-tight px-1 text-center ${invalid ? "text-red-600 font-bold" : "text-slate-400"}`}>
+        {signatureStamp(meta, invalid)}
+      </span>
+    );
+  };
+
+  useEffect(() => {
+  if (!data) return;
+
+  // ✅ supervisor + cada labourer: (Finish - Start) - Break (+ Travel)
+  const calculated = applyCalculatedTotals(data);
 
   // Avoid infinite loop: only update if changed
-  if ((data.totalTime || "") !== calculated) {
-    setData(prev => prev ? ({ ...prev, totalTime: calculated }) : prev);
-  }
-}, [data?.startTime, data?.finishTime, breakValue]);
+  if (calculated !== data) setData(calculated);
+}, [data]);
 
 
+  // ✅ editar (ou confirmar) um valor lido pela IA tira a marca de baixa confiança
+  const withConfirmed = (current: TimesheetData, field: string): TimesheetData => {
+    const confidence = current.confidence?.[field];
+    if (!confidence || confidence.confirmed) return current;
+    return { ...current, confidence: { ...current.confidence, [field]: { ...confidence, confirmed: true } } };
+  };
+
+  const confirmField = (field: string) => {
+    if (!data || locked) return;
+    setData(withConfirmed(data, field));
+  };
+
   const updateField = (field: keyof TimesheetData, value: any) => {
-    if (!data) return;
-    setData({ ...data, [field]: value });
+    if (!data || locked) return;
+    setData(withConfirmed({ ...data, [field]: value }, field));
   };
 
-  const updateItemQty = (desc: string, qty: string) => {
-    if (!data) return;
-    const newItems = [...data.items];
-    const index = newItems.findIndex(i => i.description === desc);
-    if (index > -1) {
-      newItems[index].quantity = qty;
-    } else {
-      newItems.push({ id: Math.random().toString(), description: desc, quantity: qty });
-    }
-    setData({ ...data, items: newItems });
+  const updateLabour = (index: number, field: keyof LabourRow, value: string) => {
+    if (!data || locked) return;
+    const labour = data.labour.map((row, i) => (i === index ? { ...row, [field]: value } : row));
+    setData({ ...data, labour });
   };
 
-  const getItemQty = (desc: string) => {
-    return data?.items.find(i => i.description === desc)?.quantity || "";
+  const findItem = (entry: CatalogueItem) =>
+    data?.items.find(i => i.category !== 'other' && matchesCatalogueItem(entry, i.description));
+
+  const updateItemQty = (entry: CatalogueItem, qty: string) => {
+    if (!data || locked) return;
+    const existing = findItem(entry);
+    const newItems = existing
+      ? data.items.map(i => (i.id === existing.id ? { ...i, quantity: qty, unit: entry.unit } : i))
+      : [...data.items, { id: newId(), category: entry.category, description: entry.name, quantity: qty, unit: entry.unit }];
+    const next = { ...data, items: newItems };
+    setData(existing ? withConfirmed(next, `items.${existing.id}`) : next);
   };
 
-  const exportAsJPG = async () => {
-  if (!timesheetRef.current) return;
+  const getItemQty = (entry: CatalogueItem) => findItem(entry)?.quantity || "";
 
-  setLoading(true);
+  const otherItems = data?.items.filter(i => i.category === 'other') || [];
+  const resourceGrid = layoutResourceGrid(catalogue, data?.items || []);
+  const otherSlotCount = resourceGrid.columns.flat().filter(cell => cell.kind === 'other').length;
 
-  try {
-    saveToHistory();
-    await new Promise(r => setTimeout(r, 300));
+  const saveProfileSettings = (next: SupervisorProfile[], activeId: string) => {
+    saveProfiles(next);
+    saveActiveProfileId(activeId);
+    setProfiles(next);
+    setActiveProfileId(activeId);
+    setAppState(AppState.IDLE);
+  };
 
+  const saveCatalogueSettings = (next: CatalogueItem[]) => {
+    saveCatalogue(next);
+    setCatalogue(next);
+    setAppState(AppState.IDLE);
+  };
+
+  // ✅ linhas "Other" livres: slot -> n-ésimo item da categoria 'other'
+  const updateOtherItem = (slot: number, patch: Partial<TimesheetItem>) => {
+    if (!data || locked) return;
+    const existing = otherItems[slot];
+    const items = existing
+      ? data.items.map(i => (i.id === existing.id ? { ...i, ...patch } : i))
+      : [...data.items, { id: newId(), category: 'other' as const, description: "", quantity: "", ...patch }];
+    setData(existing ? withConfirmed({ ...data, items }, `items.${existing.id}`) : { ...data, items });
+  };
+
+  const updateWaste = (patch: Partial<WasteRecord>) => {
+    if (!data || locked) return;
+    setData({ ...data, waste: { ...data.waste, ...patch } });
+  };
+
+  const toggleInList = (list: string[], value: string) =>
+    list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+  const updateWasteWeight = (index: number, value: string) => {
+    if (!data || locked) return;
+    const weightsKg = [...data.waste.weightsKg];
+    weightsKg[index] = value;
+    updateWaste({ weightsKg });
+  };
+
+  const issues = data ? validateTimesheet({ data, mySignature, supervisorSignature, invalidSignatures }) : [];
+  const errors = validationErrors(issues);
+
+  const issueFor = (field: string) =>
+    issues.find(i => i.field === field && i.severity === 'error') || issues.find(i => i.field === field);
+
+  const issueClass = (field: string) => {
+    const issue = issueFor(field);
+    if (!issue) return '';
+    return issue.severity === 'error' ? 'border-red-500 bg-red-50' : 'border-amber-400 bg-amber-50';
+  };
+
+  // ✅ valor lido pela IA com pouca confiança: mostra o trecho de origem até confirmar
+  const confidenceNote = (field: string) => {
+    const confidence = data?.confidence?.[field];
+    if (!confidence || !needsConfirmation(confidence)) return null;
+    return (
+      <div className="flex items-center gap-1 text-[9px] text-amber-700">
+        <i className="fas fa-robot"></i>
+        <span className="truncate" title={confidence.source}>
+          {Math.round(confidence.score * 100)}%{confidence.source && <> · {t('edit.confidenceRead')}: “{confidence.source}”</>}
+        </span>
+        <button type="button" onClick={() => confirmField(field)} className="ml-auto shrink-0 font-bold uppercase hover:text-amber-900">
+          <i className="fas fa-check mr-0.5"></i> {t('edit.confirmField')}
+        </button>
+      </div>
+    );
+  };
+
+  // ✅ bloqueia export com erros; override explícito pelo modal
+  const guardExport = (run: () => void) => {
+    if (errors.length === 0) run();
+    else setPendingExport(() => run);
+  };
+
+  type ExportFormat = 'jpg' | 'pdf';
+
+  // ✅ gera o arquivo da folha já salva (download e "Enviar" usam o mesmo)
+  const renderJpgFile = async (entry: SavedTimesheet): Promise<File> => {
     const node = timesheetRef.current;
+    if (!node) throw new Error("Timesheet not rendered");
+    await new Promise(r => setTimeout(r, 300));
 
     const A4_WIDTH_PX = 2480;
     const A4_HEIGHT_PX = 3508;
@@ -208,53 +787,154 @@ const minutesToHoursString = (mins: number): string => {
     const originalFontSize = node.style.fontSize;
     node.style.fontSize = `calc(1em * ${EXPORT_FONT_SCALE})`;
 
-    const dataUrl = await domtoimage.toJpeg(node, {
-      bgcolor: "#ffffff",
-      quality: 0.98,
-      width: outWidth,
-      height: outHeight,
-      style: {
-        transform: `scale(${scale})`,
-        transformOrigin: "top left",
-        width: `${domWidth}px`,
-        height: `${domHeight}px`,
-      },
+    try {
+      const dataUrl = await domtoimage.toJpeg(node, {
+        bgcolor: "#ffffff",
+        quality: 0.98,
+        width: outWidth,
+        height: outHeight,
+        style: {
+          transform: `scale(${scale})`,
+          transformOrigin: "top left",
+          width: `${domWidth}px`,
+          height: `${domHeight}px`,
+        },
+      });
+      const blob = await (await fetch(dataUrl)).blob();
+      return new File([blob], `AES-Timesheet-A4-${entry.serial}.jpg`, { type: "image/jpeg" });
+    } finally {
+      // 🔙 restaura fonte original
+      node.style.fontSize = originalFontSize;
+    }
+  };
+
+  // ✅ PDF vetorial montado só a partir da entrada (texto selecionável); nada vem do estado da tela
+  const renderPdfFile = async (entry: SavedTimesheet): Promise<File> => {
+    const logoDataUrl = await loadImageAsDataUrl(LOGO_URL);
+    const signatureMeta = entry.signatureMeta ?? {};
+    const doc = buildTimesheetPdf({
+      data: entry.data,
+      catalogue,
+      serial: entry.serial,
+      provisionalSerial: entry.provisionalSerial,
+      logoDataUrl,
+      mySignature: entry.mySignature,
+      supervisorSignature: entry.supervisorSignature,
+      photos: (entry.printPhotos ?? true) ? entry.photos ?? [] : [],
+      signatureMeta,
+      signatureVectors: entry.signatureVectors,
+      invalidSignatures: await invalidSignatureRoles(entry.data, signatureMeta),
     });
+    return new File([doc.output("blob")], `AES-Timesheet-A4-${entry.serial}.pdf`, { type: "application/pdf" });
+  };
 
-    // 🔙 restaura fonte original
-    node.style.fontSize = originalFontSize;
+  const exportFile = async (format: ExportFormat) => {
+    if (!data) return;
 
-    const link = document.createElement("a");
-    link.download = `AES-Timesheet-A4-${serialNumber}.jpg`;
-    link.href = dataUrl;
-    link.click();
+    setLoading(true);
+
+    try {
+      const entry = await saveToHistory();
+      if (!entry) return;
+      const file = format === 'pdf' ? await renderPdfFile(entry) : await renderJpgFile(entry);
+      downloadBlob(file, file.name);
+    } catch (err) {
+      console.error(err);
+      setError(t(format === 'pdf' ? 'error.exportPdf' : 'error.exportImage'));
+    } finally {
+      setLoading(false);
+    }
+  };
 
-    const nextSerial = serialNumber + 1;
-    setSerialNumber(nextSerial);
-    localStorage.setItem("aes_timesheet_serial", nextSerial.toString());
-  } catch (err) {
-    console.error(err);
-    setError("Falha ao exportar imagem A4.");
-  } finally {
+  const exportAsJPG = () => exportFile('jpg');
+  const exportAsPDF = () => exportFile('pdf');
+
+  // ✅ "Enviar": arquivo preparado antes, para o toque em "Compartilhar" chamar o
+  // Web Share direto (Safari exige o gesto); sem suporte, rascunho .eml ou mailto
+  // folha igual à última salva: usa a entrada gravada (sem serial novo nem revisão a mais);
+  // gravação em andamento é reaproveitada por quem pedir enquanto ela não termina
+  const sendSaveRef = useRef<Promise<SavedTimesheet | null> | null>(null);
+  const entryForSend = async (): Promise<SavedTimesheet | null> => {
+    if (sendSaveRef.current) return sendSaveRef.current;
+    if (data && sheetId && savedSnapshotRef.current === sheetSnapshot({ data, mySignature, supervisorSignature, photos, printPhotos, signatureMeta, signatureVectors })) {
+      const saved = await getHistoryEntry(sheetId);
+      if (saved) return saved;
+    }
+    sendSaveRef.current = saveToHistory().finally(() => { sendSaveRef.current = null; });
+    return sendSaveRef.current;
+  };
+
+  // ✅ só o pedido mais recente vale: trocar PDF/JPG rápido ou fechar o diálogo descarta os anteriores
+  const sendRequestRef = useRef(0);
+
+  const prepareSend = async (format: ExportFormat) => {
+    if (!data) return;
+    const request = ++sendRequestRef.current;
+    const current = () => request === sendRequestRef.current;
+
+    setLoading(true);
+    setPreparedSend(null);
+
+    try {
+      const entry = await entryForSend();
+      if (!entry || !current()) return;
+      const file = format === 'pdf' ? await renderPdfFile(entry) : await renderJpgFile(entry);
+      if (current()) setPreparedSend({ file, draft: buildShareDraft(entry.data, entry.serial), entry });
+    } catch (err) {
+      console.error(err);
+      if (!current()) return;
+      setSendOpen(false);
+      setError(t('error.prepareSend'));
+    } finally {
+      if (current()) setLoading(false);
+    }
+  };
+
+  const openSend = () => {
+    setSendOpen(true);
+    prepareSend('pdf');
+  };
+
+  const closeSend = () => {
+    sendRequestRef.current++;
+    setSendOpen(false);
+    setPreparedSend(null);
     setLoading(false);
-  }
-};
+  };
+
+  const deliverSend = async (via: 'share' | 'eml' | 'mailto') => {
+    if (!preparedSend) return;
+    const { file, draft, entry } = preparedSend;
+
+    try {
+      if (via === 'share') {
+        await shareFile(file, draft);
+      } else if (via === 'eml') {
+        await downloadEmlDraft(file, draft);
+      } else {
+        downloadBlob(file, file.name);
+        window.location.href = mailtoUrl(draft);
+      }
+      setSendOpen(false);
+      await markSubmitted(entry);
+    } catch (err) {
+      if (isShareCancelled(err)) return;
+      console.error(err);
+      setError(t('error.send'));
+    }
+  };
 
 
-  const EditableField = ({ value, onChange, className = "", uppercase = false }: any) => (
+  const EditableField = ({ value, onChange, className = "", uppercase = false, readOnly = false }: any) => (
     <input
       type="text"
       value={value || ""}
+      readOnly={readOnly || locked}
       onChange={(e) => onChange(e.target.value)}
       className={`formal-text border-none focus:ring-0 focus:outline-none bg-white w-full ${uppercase ? 'uppercase' : ''} ${className}`}
     />
   );
 
-  const toggleCheck = (id: string) => {
-    const current = getItemQty(id);
-    updateItemQty(id, current === 'X' ? '' : 'X');
-  };
-
   return (
     <div className="timesheet-container pb-20 w-full">
       {/* HEADER RESPONSIVO */}
@@ -262,34 +942,93 @@ const minutesToHoursString = (mins: number): string => {
         <div className="flex items-center gap-3">
           <img src={LOGO_URL} alt="AES Logo" className="h-10 object-contain" />
           <h1 className="text-lg font-bold">AES Smart Form</h1>
+          <select
+            value={language}
+            onChange={e => changeLanguage(e.target.value as Language)}
+            title={t('common.language')}
+            className="ml-auto sm:ml-2 border border-slate-200 rounded-lg px-2 py-1 text-xs font-bold text-slate-600 bg-white"
+          >
+            {LANGUAGES.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+          </select>
         </div>
 
         {/* BOTÕES RESPONSIVOS */}
         <div className="flex flex-wrap gap-2 w-full sm:w-auto justify-start sm:justify-end">
           {appState === AppState.IDLE ? (
-            <label className="bg-blue-600 text-white px-4 py-2 rounded-lg font-bold cursor-pointer hover:bg-blue-700 transition text-sm w-full sm:w-auto text-center">
-              <i className="fas fa-upload mr-2"></i> Novo Print
-              <input type="file" accept="image/png, image/jpeg" onChange={handleFileUpload} className="hidden" />
-            </label>
-          ) : (
             <>
               <button
-                onClick={() => { setAppState(AppState.IDLE); setData(null); setError(null); }}
+                onClick={() => setAppState(AppState.PROFILES)}
+                className="px-3 py-2 text-slate-600 font-bold text-sm w-full sm:w-auto border border-slate-200 rounded-lg hover:bg-slate-50 uppercase"
+              >
+                <i className="fas fa-user-tie mr-2"></i> {profiles.find(p => p.id === activeProfileId)?.name || t('header.profile')}
+              </button>
+              <button
+                onClick={() => setAppState(AppState.SETTINGS)}
+                className="px-3 py-2 text-slate-600 font-bold text-sm w-full sm:w-auto border border-slate-200 rounded-lg hover:bg-slate-50"
+              >
+                <i className="fas fa-cog mr-2"></i> {t('header.settings')}
+              </button>
+              <button
+                onClick={() => setAppState(AppState.REPORTS)}
                 className="px-3 py-2 text-slate-600 font-bold text-sm w-full sm:w-auto border border-slate-200 rounded-lg hover:bg-slate-50"
               >
-                Sair
+                <i className="fas fa-chart-bar mr-2"></i> {t('header.reports')}
               </button>
+              <label className="bg-blue-600 text-white px-4 py-2 rounded-lg font-bold cursor-pointer hover:bg-blue-700 transition text-sm w-full sm:w-auto text-center">
+                <i className="fas fa-upload mr-2"></i> {t('header.newScan')}
+                <input type="file" accept="image/png, image/jpeg, application/pdf" multiple onChange={handleFileUpload} className="hidden" />
+              </label>
               <button
-                onClick={() => setAppState(AppState.SIGNING)}
-                className="bg-slate-800 text-white px-4 py-2 rounded-lg font-bold text-sm w-full sm:w-auto"
+                onClick={() => setCameraOpen(true)}
+                className="px-3 py-2 text-blue-600 font-bold text-sm w-full sm:w-auto border border-blue-200 rounded-lg hover:bg-blue-50"
               >
-                Assinar
+                <i className="fas fa-camera mr-2"></i> {t('header.camera')}
               </button>
+              <label className="px-3 py-2 text-blue-600 font-bold text-sm w-full sm:w-auto border border-blue-200 rounded-lg hover:bg-blue-50 cursor-pointer text-center">
+                <i className="fas fa-file-import mr-2"></i> {t('header.importJobs')}
+                <input type="file" accept=".csv, .json, text/csv, application/json" onChange={handleJobImport} className="hidden" />
+              </label>
+            </>
+          ) : [AppState.SETTINGS, AppState.PROFILES, AppState.REPORTS].includes(appState) ? null : (
+            <>
               <button
-                onClick={exportAsJPG}
+                onClick={closeSheet}
+                className="px-3 py-2 text-slate-600 font-bold text-sm w-full sm:w-auto border border-slate-200 rounded-lg hover:bg-slate-50"
+              >
+                {t('header.exit')}
+              </button>
+              {locked ? (
+                <button
+                  onClick={amendSheet}
+                  className="bg-amber-500 text-white px-4 py-2 rounded-lg font-bold text-sm w-full sm:w-auto"
+                >
+                  <i className="fas fa-pen mr-2"></i> {t('header.amend')}
+                </button>
+              ) : (
+                <button
+                  onClick={openSigning}
+                  className="bg-slate-800 text-white px-4 py-2 rounded-lg font-bold text-sm w-full sm:w-auto"
+                >
+                  {t('header.sign')}
+                </button>
+              )}
+              <button
+                onClick={() => guardExport(exportAsJPG)}
                 className="bg-green-600 text-white px-4 py-2 rounded-lg font-bold text-sm w-full sm:w-auto"
               >
-                Salvar & Exportar
+                {t('header.saveExport')}
+              </button>
+              <button
+                onClick={() => guardExport(exportAsPDF)}
+                className="bg-red-600 text-white px-4 py-2 rounded-lg font-bold text-sm w-full sm:w-auto"
+              >
+                <i className="fas fa-file-pdf mr-2"></i> {t('header.exportPdf')}
+              </button>
+              <button
+                onClick={() => guardExport(openSend)}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg font-bold text-sm w-full sm:w-auto"
+              >
+                <i className="fas fa-paper-plane mr-2"></i> {t('header.send')}
               </button>
             </>
           )}
@@ -302,40 +1041,62 @@ const minutesToHoursString = (mins: number): string => {
         </div>
       )}
 
+      {queuedScanId && data && (
+        <div className="w-full max-w-[820px] mx-auto mb-4 p-4 bg-amber-50 text-amber-800 rounded-lg border border-amber-200 text-sm no-print">
+          <i className="fas fa-wifi mr-2"></i>
+          {t('banner.offlineQueued')}
+        </div>
+      )}
+
       {loading && (
         <div className="fixed inset-0 z-[100] bg-white/80 flex items-center justify-center">
           <div className="flex flex-col items-center">
             <div className="w-10 h-10 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mb-4"></div>
-            <p className="font-bold text-slate-700 uppercase text-[10px] tracking-widest">Processando Inteligência...</p>
+            <p className="font-bold text-slate-700 uppercase text-[10px] tracking-widest">{t('loading.processing')}</p>
           </div>
         </div>
       )}
 
-      {appState === AppState.IDLE && history.length > 0 && (
-        <div className="w-full max-w-[820px] mx-auto bg-white rounded-xl shadow-lg p-6 mb-10 no-print">
-          <h2 className="text-lg font-bold mb-4 flex items-center gap-2">
-            <i className="fas fa-history text-blue-500"></i> Histórico de Timesheets
-          </h2>
-          <div className="grid grid-cols-1 gap-3">
-            {history.map(item => (
-              <div
-                key={item.id}
-                className="flex items-center justify-between p-3 border rounded-lg hover:bg-slate-50 transition cursor-pointer"
-              >
-                <div onClick={() => loadFromHistory(item)} className="flex-1">
-                  <span className="font-bold text-blue-600">#{item.serial}</span> - {item.data.client}
-                  <span className="ml-4 text-xs text-slate-400">{new Date(item.timestamp).toLocaleDateString()}</span>
-                </div>
-                <button
-                  onClick={(e) => { e.stopPropagation(); deleteFromHistory(item.id); }}
-                  className="text-red-400 hover:text-red-600 p-2"
-                >
-                  <i className="fas fa-trash-alt"></i>
-                </button>
-              </div>
-            ))}
-          </div>
-        </div>
+      {appState === AppState.SETTINGS && <SheetDatePanel />}
+
+      {appState === AppState.SETTINGS && (
+        <CatalogueSettings
+          catalogue={catalogue}
+          onSave={saveCatalogueSettings}
+          onCancel={() => setAppState(AppState.IDLE)}
+        />
+      )}
+
+      {appState === AppState.PROFILES && (
+        <ProfileSettings
+          profiles={profiles}
+          activeId={activeProfileId}
+          onSave={saveProfileSettings}
+          onCancel={profiles.length ? () => setAppState(AppState.IDLE) : undefined}
+        />
+      )}
+
+      {appState === AppState.REPORTS && (
+        <PayrollReport search={searchHistory} onBack={() => setAppState(AppState.IDLE)} />
+      )}
+
+      {appState === AppState.IDLE && drafts.length > 0 && (
+        <DraftsPanel drafts={drafts} onResume={resumeDraft} onDiscard={discardDraft} />
+      )}
+
+      {appState === AppState.IDLE && scanQueue.length > 0 && (
+        <ScanQueuePanel scans={scanQueue} onOpen={openQueuedScan} onRetry={runScanQueue} onDiscard={discardQueuedScan} />
+      )}
+
+      {appState === AppState.IDLE && historyCount > 0 && (
+        <HistoryPanel
+          entries={history}
+          filter={historyFilter}
+          onFilterChange={setHistoryFilter}
+          onLoad={loadFromHistory}
+          onDelete={deleteFromHistory}
+          onExport={exportHistory}
+        />
       )}
 
       {data && (
@@ -355,7 +1116,10 @@ const minutesToHoursString = (mins: number): string => {
 
                 <div className="text-center relative mb-2">
                   <h3 className="text-lg font-black uppercase tracking-[0.2em] text-[#001f5c]">Project Time Sheet</h3>
-                  <span className="absolute right-0 top-0 text-red-600 font-mono text-2xl font-bold">{serialNumber}</span>
+                  <span className="absolute right-0 top-0 text-red-600 font-mono text-2xl font-bold">
+                    {provisionalSerial && <span className="text-[8px] text-slate-500 mr-1">Prov. {provisionalSerial}</span>}
+                    {serialNumber}
+                  </span>
                 </div>
 
                 <div className="border border-black text-[8px] grid grid-cols-[130px_1fr_100px_1fr] mb-2">
@@ -365,20 +1129,20 @@ const minutesToHoursString = (mins: number): string => {
                   </div>
                   <div className="border-r border-b border-black label-fill p-1 flex justify-between items-center italic">
                     Quoted
-                    <div onClick={() => toggleCheck('quoted')} className="w-3 h-3 border border-black bg-white flex items-center justify-center font-bold">
-                      {getItemQty('quoted')}
+                    <div onClick={() => updateField('quoted', !data.quoted)} className="w-3 h-3 border border-black bg-white flex items-center justify-center font-bold">
+                      {data.quoted ? 'X' : ''}
                     </div>
                   </div>
                   <div className="border-b border-black label-fill p-1 flex justify-between items-center italic">
                     Rates
-                    <div onClick={() => toggleCheck('rates')} className="w-3 h-3 border border-black bg-white flex items-center justify-center font-bold">
-                      {getItemQty('rates')}
+                    <div onClick={() => updateField('rates', !data.rates)} className="w-3 h-3 border border-black bg-white flex items-center justify-center font-bold">
+                      {data.rates ? 'X' : ''}
                     </div>
                   </div>
 
                   <div className="border-r border-b border-black label-fill p-1">Contact Name:</div>
                   <div className="border-r border-b border-black data-cell-white p-0">
-                    <EditableField value={(data as any).contactName} onChange={(v: any) => updateField('contactName' as any, v)} uppercase />
+                    <EditableField value={data.contactName} onChange={(v: any) => updateField('contactName', v)} uppercase />
                   </div>
                   <div className="border-r border-b border-black label-fill p-1">Date:</div>
                   <div className="border-b border-black data-cell-white p-0">
@@ -400,7 +1164,7 @@ const minutesToHoursString = (mins: number): string => {
                   </div>
                   <div className="border-r border-b border-black label-fill p-1">Client P/O No:</div>
                   <div className="border-b border-black data-cell-white p-0">
-                    <EditableField value={getItemQty('client_po')} onChange={(v: any) => updateItemQty('client_po', v)} />
+                    <EditableField value={data.clientPoNumber} onChange={(v: any) => updateField('clientPoNumber', v)} />
                   </div>
 
                   <div className="border-r border-black label-fill p-1">Task Description:</div>
@@ -434,10 +1198,10 @@ const minutesToHoursString = (mins: number): string => {
                       <EditableField value={data.travelTime} onChange={(v: any) => updateField('travelTime', v)} className="text-center" />
                     </div>
                     <div className="border-r border-black h-full data-cell-white p-0">
-                      <EditableField value={data.totalTime} onChange={(v: any) => updateField('totalTime', v)} className="text-center font-bold" />
+                      <EditableField value={data.totalTime} onChange={(v: any) => updateField('totalTime', v)} readOnly={isCalculatedTotal(data)} className="text-center font-bold" />
                     </div>
                     <div className="h-full data-cell-white p-0">
-                      <EditableField value={getItemQty('Supervisor Allowances')} onChange={(v: any) => updateItemQty('Supervisor Allowances', v)} className="text-center" />
+                      <EditableField value={data.supervisorAllowances} onChange={(v: any) => updateField('supervisorAllowances', v)} className="text-center" />
                     </div>
                   </div>
 
@@ -450,93 +1214,74 @@ const minutesToHoursString = (mins: number): string => {
                     <div className="p-0.5">Allowances (Specify)</div>
                   </div>
 
-                  {[...Array(8)].map((_, i) => (
+                  {data.labour.map((row, i) => (
                     <div key={i} className="grid grid-cols-[200px_80px_80px_100px_80px_1fr] border-b last:border-b-0 border-black h-5 items-center text-center">
                       <div className="border-r border-black h-full data-cell-white p-0">
-                        <EditableField value={getItemQty(`L_N_${i}`)} onChange={(v: any) => updateItemQty(`L_N_${i}`, v)} uppercase />
+                        <EditableField value={row.name} onChange={(v: any) => updateLabour(i, 'name', v)} uppercase />
                       </div>
                       <div className="border-r border-black h-full data-cell-white p-0">
-                        <EditableField value={getItemQty(`L_S_${i}`)} onChange={(v: any) => updateItemQty(`L_S_${i}`, v)} className="text-center" />
+                        <EditableField value={row.startTime} onChange={(v: any) => updateLabour(i, 'startTime', v)} className="text-center" />
                       </div>
                       <div className="border-r border-black h-full data-cell-white p-0">
-                        <EditableField value={getItemQty(`L_F_${i}`)} onChange={(v: any) => updateItemQty(`L_F_${i}`, v)} className="text-center" />
+                        <EditableField value={row.finishTime} onChange={(v: any) => updateLabour(i, 'finishTime', v)} className="text-center" />
                       </div>
                       <div className="border-r border-black h-full data-cell-white p-0">
-                        <EditableField value={getItemQty(`L_T_${i}`)} onChange={(v: any) => updateItemQty(`L_T_${i}`, v)} className="text-center" />
+                        <EditableField value={row.travelTime} onChange={(v: any) => updateLabour(i, 'travelTime', v)} className="text-center" />
                       </div>
                       <div className="border-r border-black h-full data-cell-white p-0">
-                        <EditableField value={getItemQty(`L_TOT_${i}`)} onChange={(v: any) => updateItemQty(`L_TOT_${i}`, v)} className="text-center font-bold" />
+                        <EditableField value={row.totalTime} onChange={(v: any) => updateLabour(i, 'totalTime', v)} readOnly={isCalculatedTotal(row)} className="text-center font-bold" />
                       </div>
                       <div className="h-full data-cell-white p-0">
-                        <EditableField value={getItemQty(`L_A_${i}`)} onChange={(v: any) => updateItemQty(`L_A_${i}`, v)} className="text-center" />
+                        <EditableField value={row.allowances} onChange={(v: any) => updateLabour(i, 'allowances', v)} className="text-center" />
                       </div>
                     </div>
                   ))}
+
+                  <div className="grid grid-cols-[200px_80px_80px_100px_80px_1fr] table-header border-t border-black h-5 items-center text-center font-bold">
+                    <div className="col-span-4 border-r border-black h-full p-0.5 text-right pr-2 italic flex items-center justify-end">Crew Total (Hours):</div>
+                    <div className="border-r border-black h-full data-cell-white flex items-center justify-center">{minutesToHoursString(calculateCrewMinutes(data))}</div>
+                    <div className="h-full"></div>
+                  </div>
                 </div>
 
                 {/* Resources Grid */}
                 <div className="border border-black text-[7px] grid grid-cols-4 mb-2">
-                  <div className="table-header border-r border-b border-black p-0.5 flex justify-between font-bold">Material <span className="mr-1">QTY</span></div>
-                  <div className="table-header border-r border-b border-black p-0.5 flex justify-between font-bold">Material <span className="mr-1">QTY</span></div>
-                  <div className="table-header border-r border-b border-black p-0.5 flex justify-between font-bold">Plant/Equipment <span className="mr-1">QTY</span></div>
-                  <div className="table-header border-b border-black p-0.5 flex justify-between font-bold">Environmental <span className="mr-1">QTY</span></div>
-
-                  <div className="flex flex-col border-r border-black divide-y divide-black bg-white">
-                    {['Black plastic', 'Clear plastic', 'Asbestos bags', 'Duct tape', 'D/sided tape', 'Hazard tape', 'Coveralls', 'Gloves', 'Boot covers', 'P2 respirators', 'Pre-filters', 'Pump box filters'].map(m => (
-                      <div key={m} className="flex justify-between items-center h-[14px]">
-                        <span className="pl-1 leading-none">{m}</span>
-                        <span className="w-8 border-l border-black h-full data-cell-white">
-                          <EditableField value={getItemQty(m)} onChange={(v: any) => updateItemQty(m, v)} className="h-full text-center p-0 text-[7px]" />
-                        </span>
-                      </div>
-                    ))}
-                  </div>
-
-                  <div className="flex flex-col border-r border-black divide-y divide-black bg-white">
-                    {['Vacuum bags', 'Geo-fabric', 'HEPA filters', '', 'Plant/Equipment', 'Decontamination Unit', 'Decontamination Trailer', 'Portable wash station', 'Negative air unit', 'HEPA vacuum', 'Airless spray', 'Platform ladder'].map((m, idx) => (
-                      <div key={idx} className={`flex justify-between items-center h-[14px] ${m === 'Plant/Equipment' ? 'table-header border-b border-black' : ''}`}>
-                        <span className={`pl-1 leading-none ${m === 'Plant/Equipment' ? 'font-bold' : ''}`}>{m}</span>
-                        {m && m !== 'Plant/Equipment' && (
-                          <span className="w-8 border-l border-black h-full data-cell-white">
-                            <EditableField value={getItemQty(m)} onChange={(v: any) => updateItemQty(m, v)} className="h-full text-center p-0 text-[7px]" />
-                          </span>
-                        )}
-                        {m === 'Plant/Equipment' && <span className="text-[6px] pr-1 font-bold">QTY</span>}
-                      </div>
-                    ))}
-                  </div>
-
-                  <div className="flex flex-col border-r border-black divide-y divide-black bg-white">
-                    {['Wet vacuum', 'Generator - 2 KVA', 'Generator - 7 KVA', '2t truck', '6t truck', 'HP washer', 'Floor stripper', 'Dehumidifier', 'Air mover', 'Air Purifier', 'Fencing', ''].map((m, idx) => (
-                      <div key={idx} className="flex justify-between items-center h-[14px]">
-                        <span className="pl-1 leading-none">{m}</span>
-                        {m && (
-                          <span className="w-8 border-l border-black h-full data-cell-white">
-                            <EditableField value={getItemQty(m)} onChange={(v: any) => updateItemQty(m, v)} className="h-full text-center p-0 text-[7px]" />
-                          </span>
-                        )}
-                      </div>
-                    ))}
-                  </div>
+                  {resourceGrid.headers.map((header, col) => (
+                    <div key={col} className={`table-header border-b border-black p-0.5 flex justify-between font-bold ${col < resourceGrid.columns.length - 1 ? 'border-r' : ''}`}>
+                      {header} {header && <span className="mr-1">QTY</span>}
+                    </div>
+                  ))}
 
-                  <div className="flex flex-col divide-y divide-black bg-white">
-                    {['Air monitoring', 'Air clearance monitoring', 'Clearance Inspection', 'Asbestos sample analysis', 'Mould sample analysis', '', 'Other', '', '', '', '', ''].map((m, idx) => (
-                      <div key={idx} className={`flex justify-between items-center h-[14px] ${m === 'Other' ? 'table-header border-b border-black' : ''}`}>
-                        <span className={`pl-1 leading-none ${m === 'Other' ? 'font-bold' : ''}`}>{m}</span>
-                        {m === 'Other' && <span className="text-[6px] pr-1 font-bold">QTY</span>}
-                        {idx > 5 && m !== 'Other' && (
-                          <span className="w-8 border-l border-black h-full data-cell-white">
-                            <EditableField value={getItemQty(`Env_Other_${idx}`)} onChange={(v: any) => updateItemQty(`Env_Other_${idx}`, v)} className="h-full text-center p-0 text-[7px]" />
-                          </span>
-                        )}
-                        {idx < 5 && m !== '' && (
-                          <span className="w-8 border-l border-black h-full data-cell-white">
-                            <EditableField value={getItemQty(m)} onChange={(v: any) => updateItemQty(m, v)} className="h-full text-center p-0 text-[7px]" />
-                          </span>
-                        )}
-                      </div>
-                    ))}
-                  </div>
+                  {resourceGrid.columns.map((column, col) => (
+                    <div key={col} className={`flex flex-col divide-y divide-black bg-white ${col < resourceGrid.columns.length - 1 ? 'border-r border-black' : ''}`}>
+                      {column.map((cell, idx) => (
+                        <div key={idx} className={`flex justify-between items-center h-[14px] ${cell.kind === 'section' ? 'table-header border-b border-black' : ''}`}>
+                          {cell.kind === 'section' && (
+                            <>
+                              <span className="pl-1 leading-none font-bold">{cell.label}</span>
+                              <span className="text-[6px] pr-1 font-bold">QTY</span>
+                            </>
+                          )}
+                          {cell.kind === 'item' && (
+                            <>
+                              <span className="pl-1 leading-none">{cell.entry.name}</span>
+                              <span className="w-8 shrink-0 border-l border-black h-full data-cell-white">
+                                <EditableField value={getItemQty(cell.entry)} onChange={(v: any) => updateItemQty(cell.entry, v)} className="h-full text-center p-0 text-[7px]" />
+                              </span>
+                            </>
+                          )}
+                          {cell.kind === 'other' && (
+                            <>
+                              <EditableField value={otherItems[cell.slot]?.description} onChange={(v: any) => updateOtherItem(cell.slot, { description: v })} className="h-full p-0 pl-1 text-[7px]" />
+                              <span className="w-8 shrink-0 border-l border-black h-full data-cell-white">
+                                <EditableField value={otherItems[cell.slot]?.quantity} onChange={(v: any) => updateOtherItem(cell.slot, { quantity: v })} className="h-full text-center p-0 text-[7px]" />
+                              </span>
+                            </>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  ))}
                 </div>
 
                 {/* TIPPING SECTION */}
@@ -545,9 +1290,9 @@ const minutesToHoursString = (mins: number): string => {
                   <div className="grid grid-cols-[80px_1fr] border-b border-black h-6">
                     <div className="label-fill p-1 flex items-center italic">Type of Waste</div>
                     <div className="flex items-center gap-4 px-2 data-cell-white">
-                      {['Asbestos', 'Asbestos Soil', 'Lead', 'GSW', 'Brick/concrete', 'Other'].map(type => (
-                        <div key={type} className="flex items-center gap-1 cursor-pointer" onClick={() => toggleCheck(`waste_type_${type}`)}>
-                          <div className="w-3 h-3 border border-black bg-white flex items-center justify-center font-bold">{getItemQty(`waste_type_${type}`)}</div>
+                      {WASTE_TYPES.map(type => (
+                        <div key={type} className="flex items-center gap-1 cursor-pointer" onClick={() => updateWaste({ types: toggleInList(data.waste.types, type) })}>
+                          <div className="w-3 h-3 border border-black bg-white flex items-center justify-center font-bold">{data.waste.types.includes(type) ? 'X' : ''}</div>
                           <span>{type}</span>
                         </div>
                       ))}
@@ -557,9 +1302,9 @@ const minutesToHoursString = (mins: number): string => {
                   <div className="grid grid-cols-[80px_1fr] border-b border-black h-6">
                     <div className="label-fill p-1 flex items-center italic">Waste</div>
                     <div className="grid grid-cols-5 h-full divide-x divide-black">
-                      {[1, 2, 3, 4, 5].map(i => (
+                      {data.waste.weightsKg.map((kg, i) => (
                         <div key={i} className="flex items-center justify-end pr-1 data-cell-white">
-                          <EditableField value={getItemQty(`Waste_KG_${i}`)} onChange={(v: any) => updateItemQty(`Waste_KG_${i}`, v)} className="text-right w-12" />
+                          <EditableField value={kg} onChange={(v: any) => updateWasteWeight(i, v)} className="text-right w-12" />
                           <span className="ml-1 font-bold">KG</span>
                         </div>
                       ))}
@@ -569,14 +1314,14 @@ const minutesToHoursString = (mins: number): string => {
                   <div className="grid grid-cols-[80px_1fr] h-6">
                     <div className="label-fill p-1 flex items-center italic">Waste Facility</div>
                     <div className="flex items-center gap-6 px-2 data-cell-white">
-                      {['SUEZ', 'Kimbriki', 'DADI', 'Other:'].map(fac => (
-                        <div key={fac} className="flex items-center gap-1 cursor-pointer" onClick={() => toggleCheck(`waste_fac_${fac}`)}>
-                          <div className="w-3 h-3 border border-black bg-white flex items-center justify-center font-bold">{getItemQty(`waste_fac_${fac}`)}</div>
+                      {WASTE_FACILITIES.map(fac => (
+                        <div key={fac} className="flex items-center gap-1 cursor-pointer" onClick={() => updateWaste({ facilities: toggleInList(data.waste.facilities, fac) })}>
+                          <div className="w-3 h-3 border border-black bg-white flex items-center justify-center font-bold">{data.waste.facilities.includes(fac) ? 'X' : ''}</div>
                           <span>{fac}</span>
                           {fac === 'Other:' && (
                             <EditableField
-                              value={getItemQty('Waste_Fac_Other')}
-                              onChange={(v: any) => updateItemQty('Waste_Fac_Other', v)}
+                              value={data.waste.otherFacility}
+                              onChange={(v: any) => updateWaste({ otherFacility: v })}
                               className="w-20"
                             />
                           )}
@@ -592,6 +1337,7 @@ const minutesToHoursString = (mins: number): string => {
                     <textarea
                       value={data.notes}
                       onChange={(e) => updateField('notes', e.target.value)}
+                      readOnly={locked}
                       className="w-full h-full p-1 border-none focus:ring-0 text-[8px] uppercase bg-white resize-none leading-tight"
                     />
                   </div>
@@ -638,15 +1384,17 @@ const minutesToHoursString = (mins: number): string => {
       </div>
 
       <div
-        className="bg-white cursor-pointer flex items-center justify-center overflow-hidden"
-        onClick={() => setAppState(AppState.SIGNING)}
+        className="bg-white cursor-pointer flex flex-col items-center justify-center overflow-hidden"
+        onClick={openSigning}
       >
         {supervisorSignature ? (
-          <img
-             src={supervisorSignature}
-             className="max-h-[40px] w-full object-contain"
-              />
-
+          <>
+            <img
+              src={supervisorSignature}
+              className="max-h-[40px] w-full object-contain"
+            />
+            {signatureStampLine('supervisor')}
+          </>
         ) : (
           <span className="text-[7px] text-slate-300 italic">Click to sign</span>
         )}
@@ -659,15 +1407,17 @@ const minutesToHoursString = (mins: number): string => {
       </div>
 
       <div
-        className="bg-white cursor-pointer flex items-center justify-center overflow-hidden"
-        onClick={() => setAppState(AppState.SIGNING)}
+        className="bg-white cursor-pointer flex flex-col items-center justify-center overflow-hidden"
+        onClick={openSigning}
       >
         {mySignature ? (
-          <img
+          <>
+            <img
               src={mySignature}
               className="max-h-[40px] w-full object-contain"
-              />
-
+            />
+            {signatureStampLine('client')}
+          </>
         ) : (
           <span className="text-[7px] text-slate-300 italic">Click to sign</span>
         )}
@@ -689,62 +1439,151 @@ const minutesToHoursString = (mins: number): string => {
           <div className="w-full max-w-[820px] mx-auto bg-white rounded-xl shadow-lg border border-slate-200 p-6 no-print flex flex-col gap-8">
             <div className="flex justify-between items-center border-b pb-2">
               <h2 className="text-xl font-bold flex items-center gap-2">
-                <i className="fas fa-magic text-blue-600"></i> Smart Edit Panel (All Fields)
+                <i className="fas fa-magic text-blue-600"></i> {t('edit.title')}
               </h2>
-              <span className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">Editor Completo</span>
+              <div className="flex items-center gap-3">
+                <span className={`text-[10px] font-bold uppercase tracking-wider ${locked ? 'text-green-600' : 'text-slate-400'}`}>
+                  {locked && <i className="fas fa-lock mr-1"></i>}
+                  {statusLabel(sheetStatus)} · {t('edit.revision', { n: revision })}
+                </span>
+                {sheetId && (
+                  <button type="button" onClick={openRevisions} className="text-[10px] font-bold uppercase text-blue-600 hover:text-blue-800">
+                    <i className="fas fa-code-branch mr-1"></i> {t('revisions.open')}
+                  </button>
+                )}
+              </div>
             </div>
 
+            {locked && (
+              <p className="p-3 text-xs text-green-800 bg-green-50 border border-green-200 rounded-lg">
+                <i className="fas fa-lock mr-1"></i> {t('edit.lockedNotice')}
+              </p>
+            )}
+
+            {issues.length > 0 && (
+              <div className="flex flex-col gap-1 p-3 rounded-lg border border-slate-200 bg-slate-50">
+                <span className="text-[10px] font-bold uppercase text-slate-500">
+                  {t('edit.issueCount', { errors: errors.length, warnings: issues.length - errors.length })}
+                </span>
+                {issues.map((issue, idx) => (
+                  <span key={idx} className={`text-[11px] ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-600'}`}>
+                    <i className={`fas ${issue.severity === 'error' ? 'fa-times-circle' : 'fa-exclamation-triangle'} mr-1`}></i>
+                    {issueMessage(issue)}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {/* fora do fieldset: baixar a assinatura vale também com a folha travada */}
+            {SIGNATURE_ROLES.some(role => signatureVectors[role]) && (
+              <div className="flex flex-wrap items-center gap-3">
+                <span className="text-[9px] font-bold uppercase text-slate-500">{t('edit.signatureSvg')}</span>
+                {SIGNATURE_ROLES.filter(role => signatureVectors[role]).map(role => (
+                  <button key={role} type="button" onClick={() => downloadSignatureSvg(role)} className="text-[10px] font-bold uppercase text-blue-600 hover:text-blue-800">
+                    <i className="fas fa-download mr-1"></i> {t(role === 'client' ? 'field.clientSignature' : 'field.supervisorSignature')}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {/* assinada: tudo abaixo fica só leitura */}
+            <fieldset disabled={locked} className="contents">
            {/* ✅ 1. Basic Info */}
 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
   <div className="flex flex-col gap-0.5">
-    <label className="text-[9px] font-bold uppercase text-slate-500">Client</label>
+    <label className="text-[9px] font-bold uppercase text-slate-500">{t('field.client')}</label>
     <input
       type="text"
       value={data.client || ""}
       onChange={e => updateField('client', e.target.value)}
-      className="border p-2 rounded text-sm"
+      className={`border p-2 rounded text-sm ${issueClass('client')}`}
+      title={issueMessage(issueFor('client'))}
     />
+    {confidenceNote('client')}
   </div>
 
   <div className="flex flex-col gap-0.5">
-    <label className="text-[9px] font-bold uppercase text-slate-500">Job No</label>
+    <label className="text-[9px] font-bold uppercase text-slate-500">{t('field.jobNo')}</label>
     <input
       type="text"
       value={data.jobId || ""}
       onChange={e => updateField('jobId', e.target.value)}
-      className="border p-2 rounded text-xs font-bold"
+      className={`border p-2 rounded text-xs font-bold ${issueClass('jobId')}`}
+      title={issueMessage(issueFor('jobId'))}
     />
+    {confidenceNote('jobId')}
   </div>
 
   <div className="flex flex-col gap-0.5">
-    <label className="text-[9px] font-bold uppercase text-slate-500">Date</label>
+    <label className="text-[9px] font-bold uppercase text-slate-500">{t('field.date')}</label>
     <input
       type="text"
       value={data.date || ""}
       onChange={e => updateField('date', e.target.value)}
-      className="border p-2 rounded text-sm"
+      className={`border p-2 rounded text-sm ${issueClass('date')}`}
+      title={issueMessage(issueFor('date'))}
+    />
+  </div>
+
+  <div className="flex flex-col gap-0.5">
+    <label className="text-[9px] font-bold uppercase text-slate-500">{t('field.contactName')}</label>
+    <input
+      type="text"
+      value={data.contactName || ""}
+      onChange={e => updateField('contactName', e.target.value)}
+      className={`border p-2 rounded text-sm uppercase ${issueClass('contactName')}`}
+      title={issueMessage(issueFor('contactName'))}
     />
+    {confidenceNote('contactName')}
+  </div>
+
+  <div className="flex flex-col gap-0.5">
+    <label className="text-[9px] font-bold uppercase text-slate-500">{t('field.phone')}</label>
+    <input
+      type="text"
+      value={data.contactNumber || ""}
+      onChange={e => updateField('contactNumber', e.target.value)}
+      className={`border p-2 rounded text-sm ${issueClass('contactNumber')}`}
+      title={issueMessage(issueFor('contactNumber'))}
+    />
+    {confidenceNote('contactNumber')}
+  </div>
+
+  <div className="flex flex-col gap-0.5">
+    <label className="text-[9px] font-bold uppercase text-slate-500">{t('field.contactEmail')}</label>
+    <input
+      type="email"
+      value={data.contactEmail || ""}
+      onChange={e => updateField('contactEmail', e.target.value)}
+      className={`border p-2 rounded text-sm ${issueClass('contactEmail')}`}
+      title={issueMessage(issueFor('contactEmail'))}
+    />
+    {confidenceNote('contactEmail')}
   </div>
 
   {/* ✅ Address */}
   <div className="md:col-span-3 flex flex-col gap-0.5">
-    <label className="text-[9px] font-bold uppercase text-slate-500">Job Site Address</label>
+    <label className="text-[9px] font-bold uppercase text-slate-500">{t('field.address')}</label>
     <input
       type="text"
       value={data.address || ""}
       onChange={e => updateField('address', e.target.value)}
-      className="border p-2 rounded text-sm uppercase"
+      className={`border p-2 rounded text-sm uppercase ${issueClass('address')}`}
+      title={issueMessage(issueFor('address'))}
     />
+    {confidenceNote('address')}
   </div>
 
   {/* ✅ Task Description */}
   <div className="md:col-span-3 flex flex-col gap-0.5">
-    <label className="text-[9px] font-bold uppercase text-slate-500">Task Description</label>
+    <label className="text-[9px] font-bold uppercase text-slate-500">{t('field.description')}</label>
     <textarea
       value={data.description || ""}
       onChange={e => updateField('description', e.target.value)}
-      className="border p-2 rounded text-sm uppercase min-h-[80px] resize-none"
+      className={`border p-2 rounded text-sm uppercase min-h-[80px] resize-none ${issueClass('description')}`}
+      title={issueMessage(issueFor('description'))}
     />
+    {confidenceNote('description')}
   </div>
 </div>
 
@@ -752,83 +1591,97 @@ const minutesToHoursString = (mins: number): string => {
             {/* ✅ Supervisor & Times (TOP ROW) */}
 <div className="border-t pt-4">
   <h3 className="text-sm font-bold text-slate-700 mb-3 flex items-center gap-2 uppercase tracking-wide">
-    <i className="fas fa-user-tie text-slate-700"></i> Supervisor & Times
+    <i className="fas fa-user-tie text-slate-700"></i> {t('edit.supervisorSection')}
   </h3>
 
   <div className="grid grid-cols-1 md:grid-cols-6 gap-3">
     <div className="md:col-span-2 flex flex-col gap-0.5">
-      <label className="text-[9px] font-bold uppercase text-slate-500">Supervisor Name</label>
+      <label className="text-[9px] font-bold uppercase text-slate-500">{t('field.supervisorName')}</label>
       <input
         type="text"
         value={data.supervisorName || ""}
         onChange={e => updateField('supervisorName', e.target.value)}
-        className="border p-2 rounded text-xs font-bold uppercase"
+        className={`border p-2 rounded text-xs font-bold uppercase ${issueClass('supervisorName')}`}
+        title={issueMessage(issueFor('supervisorName'))}
       />
     </div>
 
     <div className="flex flex-col gap-0.5">
-      <label className="text-[9px] font-bold uppercase text-slate-500">Start</label>
+      <label className="text-[9px] font-bold uppercase text-slate-500">{t('field.start')}</label>
       <input
         type="text"
         value={data.startTime || ""}
         onChange={e => updateField('startTime', e.target.value)}
-        className="border p-2 rounded text-sm text-center"
+        className={`border p-2 rounded text-sm text-center ${issueClass('startTime')}`}
+        title={issueMessage(issueFor('startTime'))}
       />
     </div>
 
     <div className="flex flex-col gap-0.5">
-      <label className="text-[9px] font-bold uppercase text-slate-500">Finish</label>
+      <label className="text-[9px] font-bold uppercase text-slate-500">{t('field.finish')}</label>
       <input
         type="text"
         value={data.finishTime || ""}
         onChange={e => updateField('finishTime', e.target.value)}
-        className="border p-2 rounded text-sm text-center"
+        className={`border p-2 rounded text-sm text-center ${issueClass('finishTime')}`}
+        title={issueMessage(issueFor('finishTime'))}
       />
     </div>
 
     <div className="flex flex-col gap-0.5">
-      <label className="text-[9px] font-bold uppercase text-slate-500">Travel</label>
+      <label className="text-[9px] font-bold uppercase text-slate-500">{t('field.travel')}</label>
       <input
         type="text"
         value={data.travelTime || ""}
         onChange={e => updateField('travelTime', e.target.value)}
-        className="border p-2 rounded text-sm text-center"
+        className={`border p-2 rounded text-sm text-center ${issueClass('travelTime')}`}
+        title={issueMessage(issueFor('travelTime'))}
       />
     </div>
 
     <div className="flex flex-col gap-0.5">
-  <label className="text-[9px] font-bold uppercase text-slate-500">Break</label>
+  <label className="text-[9px] font-bold uppercase text-slate-500">{t('field.break')}</label>
   <input
     type="text"
-    value={breakValue}
-    onChange={e => setBreakValue(e.target.value)}
-    className="border p-2 rounded text-sm text-center"
-    placeholder="0.5 ou 00:30"
+    value={data.breakTime || ""}
+    onChange={e => updateField('breakTime', e.target.value)}
+    className={`border p-2 rounded text-sm text-center ${issueClass('breakTime')}`}
+    title={issueMessage(issueFor('breakTime'))}
+    placeholder={t('field.breakPlaceholder')}
   />
 </div>
 
 <div className="flex flex-col gap-0.5">
-  <label className="text-[9px] font-bold uppercase text-slate-500">Total</label>
+  <label className="text-[9px] font-bold uppercase text-slate-500">{t('field.total')}</label>
   <input
     type="text"
     value={data.totalTime || ""}
     readOnly
-    className="border p-2 rounded text-sm text-center font-bold bg-slate-50"
-    title="Calculado automaticamente: (Finish - Start) - Break"
+    className={`border p-2 rounded text-sm text-center font-bold bg-slate-50 ${issueClass('totalTime')}`}
+    title={t('field.totalHint')}
   />
 </div>
 
   </div>
 
+  <label className="mt-3 flex items-center gap-2 text-[10px] font-bold uppercase text-slate-500 cursor-pointer">
+    <input
+      type="checkbox"
+      checked={data.includeTravel}
+      onChange={e => updateField('includeTravel', e.target.checked)}
+    />
+    {t('field.includeTravel')}
+  </label>
+
   {/* (Opcional) Allowances do Supervisor */}
   <div className="mt-3 flex flex-col gap-0.5">
-    <label className="text-[9px] font-bold uppercase text-slate-500">Supervisor Allowances</label>
+    <label className="text-[9px] font-bold uppercase text-slate-500">{t('field.supervisorAllowances')}</label>
     <input
       type="text"
-      value={getItemQty('Supervisor Allowances')}
-      onChange={e => updateItemQty('Supervisor Allowances', e.target.value)}
+      value={data.supervisorAllowances}
+      onChange={e => updateField('supervisorAllowances', e.target.value)}
       className="border p-2 rounded text-sm text-center"
-      placeholder="Ex: Meal, Parking, etc"
+      placeholder={t('field.allowancesPlaceholder')}
     />
   </div>
 </div>
@@ -837,146 +1690,224 @@ const minutesToHoursString = (mins: number): string => {
             {/* 2. Labour Section Edit */}
             <div className="border-t pt-4">
               <h3 className="text-sm font-bold text-slate-700 mb-3 flex items-center gap-2 uppercase tracking-wide">
-                <i className="fas fa-users text-blue-500"></i> Labour & Times
+                <i className="fas fa-users text-blue-500"></i> {t('edit.labourSection')}
               </h3>
               <div className="grid grid-cols-1 gap-2">
-                {[...Array(5)].map((_, i) => (
-                  <div key={i} className="grid grid-cols-6 gap-2 items-end border-b pb-2 border-slate-50">
+                {data.labour.map((row, i) => (
+                  <div key={i} className="grid grid-cols-7 gap-2 items-end border-b pb-2 border-slate-50">
                     <div className="col-span-2">
-                      <label className="text-[8px] text-slate-400 uppercase font-bold">Labourer Name {i + 1}</label>
-                      <input type="text" value={getItemQty(`L_N_${i}`)} onChange={e => updateItemQty(`L_N_${i}`, e.target.value)} className="w-full border p-1 rounded text-[10px]" />
+                      <label className="text-[8px] text-slate-400 uppercase font-bold">{t('field.labourerName', { n: i + 1 })}</label>
+                      <input type="text" value={row.name} onChange={e => updateLabour(i, 'name', e.target.value)} className={`w-full border p-1 rounded text-[10px] ${issueClass(`labour.${i}.name`)}`} title={issueMessage(issueFor(`labour.${i}.name`))} />
+                    </div>
+                    <div>
+                      <label className="text-[8px] text-slate-400 uppercase font-bold">{t('field.start')}</label>
+                      <input type="text" value={row.startTime} onChange={e => updateLabour(i, 'startTime', e.target.value)} className={`w-full border p-1 rounded text-[10px] ${issueClass(`labour.${i}.startTime`)}`} title={issueMessage(issueFor(`labour.${i}.startTime`))} />
                     </div>
                     <div>
-                      <label className="text-[8px] text-slate-400 uppercase font-bold">Start</label>
-                      <input type="text" value={getItemQty(`L_S_${i}`)} onChange={e => updateItemQty(`L_S_${i}`, e.target.value)} className="w-full border p-1 rounded text-[10px]" />
+                      <label className="text-[8px] text-slate-400 uppercase font-bold">{t('field.finish')}</label>
+                      <input type="text" value={row.finishTime} onChange={e => updateLabour(i, 'finishTime', e.target.value)} className={`w-full border p-1 rounded text-[10px] ${issueClass(`labour.${i}.finishTime`)}`} title={issueMessage(issueFor(`labour.${i}.finishTime`))} />
                     </div>
                     <div>
-                      <label className="text-[8px] text-slate-400 uppercase font-bold">Finish</label>
-                      <input type="text" value={getItemQty(`L_F_${i}`)} onChange={e => updateItemQty(`L_F_${i}`, e.target.value)} className="w-full border p-1 rounded text-[10px]" />
+                      <label className="text-[8px] text-slate-400 uppercase font-bold">{t('field.travel')}</label>
+                      <input type="text" value={row.travelTime} onChange={e => updateLabour(i, 'travelTime', e.target.value)} className={`w-full border p-1 rounded text-[10px] ${issueClass(`labour.${i}.travelTime`)}`} title={issueMessage(issueFor(`labour.${i}.travelTime`))} />
                     </div>
                     <div>
-                      <label className="text-[8px] text-slate-400 uppercase font-bold">Travel</label>
-                      <input type="text" value={getItemQty(`L_T_${i}`)} onChange={e => updateItemQty(`L_T_${i}`, e.target.value)} className="w-full border p-1 rounded text-[10px]" />
+                      <label className="text-[8px] text-slate-400 uppercase font-bold">{t('field.break')}</label>
+                      <input type="text" value={row.breakTime} onChange={e => updateLabour(i, 'breakTime', e.target.value)} className={`w-full border p-1 rounded text-[10px] ${issueClass(`labour.${i}.breakTime`)}`} title={issueMessage(issueFor(`labour.${i}.breakTime`))} placeholder="0.5" />
                     </div>
                     <div>
-                      <label className="text-[8px] text-slate-400 uppercase font-bold">Total</label>
-                      <input type="text" value={getItemQty(`L_TOT_${i}`)} onChange={e => updateItemQty(`L_TOT_${i}`, e.target.value)} className="w-full border p-1 rounded text-[10px] font-bold" />
+                      <label className="text-[8px] text-slate-400 uppercase font-bold">{t('field.total')}</label>
+                      <input
+                        type="text"
+                        value={row.totalTime}
+                        onChange={e => updateLabour(i, 'totalTime', e.target.value)}
+                        readOnly={isCalculatedTotal(row)}
+                        className={`w-full border p-1 rounded text-[10px] font-bold ${isCalculatedTotal(row) ? 'bg-slate-50' : ''} ${issueClass(`labour.${i}.totalTime`)}`}
+                        title={issueMessage(issueFor(`labour.${i}.totalTime`))}
+                      />
                     </div>
                   </div>
                 ))}
               </div>
+              <div className="mt-2 flex justify-end items-center gap-2 text-[10px] font-bold uppercase text-slate-500">
+                {t('field.crewTotal')}
+                <span className="text-sm text-slate-800">{minutesToHoursString(calculateCrewMinutes(data))} h</span>
+              </div>
             </div>
 
             {/* 3. Materials, Plant & Environmental Edit */}
             <div className="border-t pt-4">
               <h3 className="text-sm font-bold text-slate-700 mb-3 flex items-center gap-2 uppercase tracking-wide">
-                <i className="fas fa-box-open text-orange-500"></i> Resources & Insumos
+                <i className="fas fa-box-open text-orange-500"></i> {t('edit.resourcesSection')}
               </h3>
 
               <div className="grid grid-cols-1 gap-6">
-                <div>
-                  <h4 className="text-[10px] font-bold text-blue-600 mb-2 border-b pb-1">MATERIAL</h4>
-                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-                    {['Black plastic', 'Clear plastic', 'Asbestos bags', 'Duct tape', 'D/sided tape', 'Hazard tape', 'Coveralls', 'Gloves', 'Boot covers', 'P2 respirators', 'Pre-filters', 'Pump box filters', 'Vacuum bags', 'Geo-fabric', 'HEPA filters'].map(m => (
-                      <div key={m} className="flex flex-col">
-                        <label className="text-[8px] text-slate-400 uppercase font-bold truncate">{m}</label>
-                        <input type="text" value={getItemQty(m)} onChange={e => updateItemQty(m, e.target.value)} className="border p-1 rounded text-[10px]" />
-                      </div>
-                    ))}
-                  </div>
-                </div>
-
-                <div>
-                  <h4 className="text-[10px] font-bold text-orange-600 mb-2 border-b pb-1">PLANT & EQUIPMENT</h4>
-                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-                    {['Decontamination Unit', 'Decontamination Trailer', 'Portable wash station', 'Negative air unit', 'HEPA vacuum', 'Airless spray', 'Platform ladder', 'Wet vacuum', 'Generator - 2 KVA', 'Generator - 7 KVA', '2t truck', '6t truck', 'HP washer', 'Floor stripper', 'Dehumidifier', 'Air mover', 'Air Purifier', 'Fencing'].map(m => (
-                      <div key={m} className="flex flex-col">
-                        <label className="text-[8px] text-slate-400 uppercase font-bold truncate">{m}</label>
-                        <input type="text" value={getItemQty(m)} onChange={e => updateItemQty(m, e.target.value)} className="border p-1 rounded text-[10px]" />
-                      </div>
-                    ))}
-                  </div>
-                </div>
-
-                <div>
-                  <h4 className="text-[10px] font-bold text-green-600 mb-2 border-b pb-1">ENVIRONMENTAL & OTHER</h4>
-                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-                    {['Air monitoring', 'Air clearance monitoring', 'Clearance Inspection', 'Asbestos sample analysis', 'Mould sample analysis'].map(m => (
-                      <div key={m} className="flex flex-col">
-                        <label className="text-[8px] text-slate-400 uppercase font-bold truncate">{m}</label>
-                        <input type="text" value={getItemQty(m)} onChange={e => updateItemQty(m, e.target.value)} className="border p-1 rounded text-[10px]" />
-                      </div>
-                    ))}
-                    {[6, 7, 8, 9, 10, 11].map(idx => (
-                      <div key={idx} className="flex flex-col">
-                        <label className="text-[8px] text-slate-400 uppercase font-bold">Other Qty {idx - 5}</label>
-                        <input type="text" value={getItemQty(`Env_Other_${idx}`)} onChange={e => updateItemQty(`Env_Other_${idx}`, e.target.value)} className="border p-1 rounded text-[10px]" />
-                      </div>
-                    ))}
+                {EDIT_SECTIONS.map(({ category, title, color }) => (
+                  <div key={category}>
+                    <h4 className={`text-[10px] font-bold ${color} mb-2 border-b pb-1`}>{title}</h4>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                      {catalogueByCategory(catalogue, category)
+                        .filter(entry => entry.active || getItemQty(entry))
+                        .map(entry => (
+                          <div key={entry.id} className="flex flex-col">
+                            <label className="text-[8px] text-slate-400 uppercase font-bold truncate">
+                              {entry.name} {entry.unit && <span className="normal-case font-normal">({entry.unit})</span>}
+                            </label>
+                            <input type="text" value={getItemQty(entry)} onChange={e => updateItemQty(entry, e.target.value)} className={`border p-1 rounded text-[10px] ${issueClass(`items.${findItem(entry)?.id}`)}`} title={issueMessage(issueFor(`items.${findItem(entry)?.id}`))} />
+                            {confidenceNote(`items.${findItem(entry)?.id}`)}
+                          </div>
+                        ))}
+                      {category === 'environmental' && [...Array(otherSlotCount)].map((_, slot) => (
+                        <div key={`other-${slot}`} className="flex flex-col">
+                          <input
+                            type="text"
+                            value={otherItems[slot]?.description || ""}
+                            onChange={e => updateOtherItem(slot, { description: e.target.value })}
+                            placeholder={t('field.otherSlot', { n: slot + 1 })}
+                            className="text-[8px] text-slate-500 uppercase font-bold border-b border-dashed mb-0.5"
+                          />
+                          <input type="text" value={otherItems[slot]?.quantity || ""} onChange={e => updateOtherItem(slot, { quantity: e.target.value })} className={`border p-1 rounded text-[10px] ${issueClass(`items.${otherItems[slot]?.id}`)}`} title={issueMessage(issueFor(`items.${otherItems[slot]?.id}`))} />
+                          {confidenceNote(`items.${otherItems[slot]?.id}`)}
+                        </div>
+                      ))}
+                    </div>
                   </div>
-                </div>
+                ))}
               </div>
             </div>
 
             {/* 4. Tipping Edit */}
             <div className="border-t pt-4">
               <h3 className="text-sm font-bold text-slate-700 mb-3 flex items-center gap-2 uppercase tracking-wide">
-                <i className="fas fa-truck text-slate-500"></i> Tipping Details
+                <i className="fas fa-truck text-slate-500"></i> {t('edit.tippingSection')}
               </h3>
 
               <div className="flex flex-wrap gap-4 mb-3 p-3 bg-slate-50 rounded">
-                <span className="text-[10px] font-bold text-slate-500 w-full">Waste Types:</span>
-                {['Asbestos', 'Asbestos Soil', 'Lead', 'GSW', 'Brick/concrete', 'Other'].map(type => (
+                <span className="text-[10px] font-bold text-slate-500 w-full">{t('field.wasteTypes')}</span>
+                {WASTE_TYPES.map(type => (
                   <label key={type} className="flex items-center gap-2 cursor-pointer bg-white border px-2 py-1 rounded">
-                    <input type="checkbox" checked={getItemQty(`waste_type_${type}`) === 'X'} onChange={() => toggleCheck(`waste_type_${type}`)} />
+                    <input type="checkbox" checked={data.waste.types.includes(type)} onChange={() => updateWaste({ types: toggleInList(data.waste.types, type) })} />
                     <span className="text-[10px] uppercase">{type}</span>
                   </label>
                 ))}
               </div>
 
               <div className="grid grid-cols-2 md:grid-cols-5 gap-2 mb-4">
-                {[1, 2, 3, 4, 5].map(i => (
+                {data.waste.weightsKg.map((kg, i) => (
                   <div key={i} className="flex flex-col gap-0.5">
-                    <label className="text-[9px] font-bold text-slate-500 uppercase">KG {i}</label>
-                    <input type="text" value={getItemQty(`Waste_KG_${i}`)} onChange={e => updateItemQty(`Waste_KG_${i}`, e.target.value)} className="border p-2 rounded text-sm" placeholder="KG" />
+                    <label className="text-[9px] font-bold text-slate-500 uppercase">KG {i + 1}</label>
+                    <input type="text" value={kg} onChange={e => updateWasteWeight(i, e.target.value)} className={`border p-2 rounded text-sm ${issueClass(`waste.weightsKg.${i}`)}`} title={issueMessage(issueFor(`waste.weightsKg.${i}`))} placeholder="KG" />
                   </div>
                 ))}
               </div>
 
               <div className="flex flex-wrap gap-4 mb-3 p-3 bg-slate-50 rounded">
-                <span className="text-[10px] font-bold text-slate-500 w-full">Facilities:</span>
-                {['SUEZ', 'Kimbriki', 'DADI', 'Other:'].map(fac => (
+                <span className="text-[10px] font-bold text-slate-500 w-full">{t('field.facilities')}</span>
+                {WASTE_FACILITIES.map(fac => (
                   <label key={fac} className="flex items-center gap-2 cursor-pointer bg-white border px-2 py-1 rounded">
-                    <input type="checkbox" checked={getItemQty(`waste_fac_${fac}`) === 'X'} onChange={() => toggleCheck(`waste_fac_${fac}`)} />
+                    <input type="checkbox" checked={data.waste.facilities.includes(fac)} onChange={() => updateWaste({ facilities: toggleInList(data.waste.facilities, fac) })} />
                     <span className="text-[10px] uppercase">{fac}</span>
                   </label>
                 ))}
               </div>
 
               <div className="flex flex-col gap-0.5">
-                <label className="text-[9px] font-bold text-slate-500 uppercase">Other Facility Name</label>
-                <input type="text" value={getItemQty('Waste_Fac_Other')} onChange={e => updateItemQty('Waste_Fac_Other', e.target.value)} className="border p-2 rounded text-sm" />
+                <label className="text-[9px] font-bold text-slate-500 uppercase">{t('field.otherFacility')}</label>
+                <input type="text" value={data.waste.otherFacility} onChange={e => updateWaste({ otherFacility: e.target.value })} className={`border p-2 rounded text-sm ${issueClass('waste.otherFacility')}`} title={issueMessage(issueFor('waste.otherFacility'))} />
               </div>
             </div>
 
             {/* 5. Notes & Signatures Info */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 border-t pt-4">
               <div className="flex flex-col gap-1">
-                <label className="text-[9px] font-bold text-slate-500 uppercase">Notes / Variations</label>
+                <label className="text-[9px] font-bold text-slate-500 uppercase">{t('field.notes')}</label>
                 <textarea value={data.notes} onChange={e => updateField('notes', e.target.value)} className="border p-2 rounded text-xs h-24" />
               </div>
 
               <div className="flex flex-col gap-3">
                 <div className="flex flex-col gap-0.5">
-                  <label className="text-[9px] font-bold text-slate-500 uppercase">Client Representative Name</label>
-                  <input type="text" value={data.clientRepName} onChange={e => updateField('clientRepName', e.target.value)} className="border p-2 rounded text-xs font-bold" />
+                  <label className="text-[9px] font-bold text-slate-500 uppercase">{t('field.clientRepName')}</label>
+                  <input type="text" value={data.clientRepName} onChange={e => updateField('clientRepName', e.target.value)} className={`border p-2 rounded text-xs font-bold ${issueClass('clientRepName')}`} title={issueMessage(issueFor('clientRepName'))} />
+                </div>
+                <div className="flex gap-2">
+                  {([['signature.supervisor', 'field.supervisorSignature', supervisorSignature, 'supervisor'], ['signature.client', 'field.clientSignature', mySignature, 'client']] as const).map(([field, label, signature, role]) => (
+                    <button
+                      key={field}
+                      type="button"
+                      onClick={openSigning}
+                      className={`flex-1 border p-2 rounded text-[10px] font-bold uppercase text-left ${issueClass(field)}`}
+                    >
+                      <i className={`fas ${!signature ? 'fa-signature text-slate-400' : invalidSignatures.includes(role) ? 'fa-exclamation-triangle text-red-600' : 'fa-check text-green-600'} mr-2`}></i>
+                      {t(label)}{signature && invalidSignatures.includes(role) && ` ${t('field.invalidated')}`}
+                    </button>
+                  ))}
                 </div>
                 <div className="flex flex-col gap-0.5">
-                  <label className="text-[9px] font-bold text-slate-500 uppercase">Supervisor Name</label>
-                  <input type="text" value={data.supervisorName} onChange={e => updateField('supervisorName', e.target.value)} className="border p-2 rounded text-xs" />
+                  <label className="text-[9px] font-bold text-slate-500 uppercase">{t('field.supervisorName')}</label>
+                  <input type="text" value={data.supervisorName} onChange={e => updateField('supervisorName', e.target.value)} className={`border p-2 rounded text-xs ${issueClass('supervisorName')}`} title={issueMessage(issueFor('supervisorName'))} />
                 </div>
               </div>
             </div>
+
+            {/* 6. Photos & Evidence */}
+            <PhotoAttachments
+              photos={photos}
+              printPhotos={printPhotos}
+              onAdd={addPhotos}
+              onChange={setPhotos}
+              onPrintPhotosChange={setPrintPhotos}
+            />
+            </fieldset>
+          </div>
+        </div>
+      )}
+
+      {sendOpen && (
+        <SendDialog
+          prepared={preparedSend}
+          shareSupported={canShareFiles()}
+          onFormatChange={prepareSend}
+          onSend={deliverSend}
+          onClose={closeSend}
+        />
+      )}
+
+      {revisionList && (
+        <RevisionHistory revisions={revisionList} onRestore={restoreRevision} onClose={() => setRevisionList(null)} />
+      )}
+
+      {cameraOpen && (
+        <CameraCapture onDone={handleCameraCapture} onCancel={() => setCameraOpen(false)} />
+      )}
+
+      {importedJobs && (
+        <JobImportPicker jobs={importedJobs} onPick={startFromJob} onCancel={() => setImportedJobs(null)} />
+      )}
+
+      {pendingExport && (
+        <div className="fixed inset-0 z-[150] bg-slate-900/90 backdrop-blur-sm flex items-center justify-center p-4">
+          <div className="bg-white p-6 rounded-2xl w-full max-w-lg shadow-2xl">
+            <h2 className="text-lg font-black mb-4 border-b pb-2 text-red-600 uppercase tracking-wide">
+              <i className="fas fa-exclamation-triangle mr-2"></i> {t('exportErrors.title')}
+            </h2>
+            <div className="flex flex-col gap-1 max-h-[50vh] overflow-y-auto">
+              {errors.map((issue, idx) => (
+                <span key={idx} className="text-sm text-red-600">
+                  <i className="fas fa-times-circle mr-2"></i>{issueMessage(issue)}
+                </span>
+              ))}
+            </div>
+            <div className="mt-6 flex justify-end gap-3">
+              <button onClick={() => setPendingExport(null)} className="bg-blue-600 text-white px-6 py-2 rounded-lg font-bold text-sm">
+                {t('exportErrors.fix')}
+              </button>
+              <button
+                onClick={() => { const run = pendingExport; setPendingExport(null); run(); }}
+                className="bg-slate-100 text-red-600 px-6 py-2 rounded-lg font-bold text-sm"
+              >
+                {t('exportErrors.exportAnyway')}
+              </button>
+            </div>
           </div>
         </div>
       )}
@@ -984,17 +1915,48 @@ const minutesToHoursString = (mins: number): string => {
       {appState === AppState.SIGNING && (
         <div className="fixed inset-0 z-[150] bg-slate-900/90 backdrop-blur-sm flex items-center justify-center p-4">
           <div className="bg-white p-6 rounded-2xl w-full max-w-2xl shadow-2xl">
-            <h2 className="text-lg font-black mb-4 border-b pb-2 text-slate-800 uppercase tracking-wide">Signatures</h2>
+            <h2 className="text-lg font-black mb-4 border-b pb-2 text-slate-800 uppercase tracking-wide">{t('signing.title')}</h2>
+            {invalidSignatures.length > 0 && (
+              <p className="mb-4 p-3 text-xs text-red-700 bg-red-50 border border-red-200 rounded-lg">
+                <i className="fas fa-exclamation-triangle mr-1"></i>
+                {t('signing.invalidated')}
+              </p>
+            )}
+            {/* nome antes de assinar: entra no carimbo e no hash */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <SignaturePad label="Client Representative" onSave={setMySignature} onClear={() => setMySignature(null)} />
-              <SignaturePad label="AES Supervisor" onSave={setSupervisorSignature} onClear={() => setSupervisorSignature(null)} />
+              {([['client', 'clientRepName', 'signing.clientRep'], ['supervisor', 'supervisorName', 'signing.supervisor']] as const).map(([role, field, label]) => (
+                <div key={role} className="flex flex-col gap-2">
+                  <input
+                    type="text"
+                    value={data?.[field] || ""}
+                    onChange={e => updateField(field, e.target.value)}
+                    placeholder={t('signing.signerPlaceholder')}
+                    className="border p-2 rounded text-sm font-bold uppercase"
+                  />
+                  <SignaturePad id={role} label={t(label)} onSave={(image, vector) => signAs(role, image, vector)} onClear={() => clearSignature(role)} />
+                  {role === 'supervisor' && savedSignature && (
+                    <button type="button" onClick={signWithSaved} className="text-[10px] font-bold uppercase text-blue-600 hover:text-blue-800 text-left">
+                      <i className="fas fa-file-signature mr-1"></i> {t('signing.useSaved')}
+                    </button>
+                  )}
+                  {signatureMeta[role] && (
+                    <span className={`text-[10px] ${invalidSignatures.includes(role) ? "text-red-600 font-bold" : "text-slate-400"}`}>
+                      {signatureStamp(signatureMeta[role]!, invalidSignatures.includes(role))}
+                    </span>
+                  )}
+                </div>
+              ))}
             </div>
+            <label className="flex items-center gap-2 mt-4 cursor-pointer">
+              <input type="checkbox" checked={recordLocation} onChange={e => setRecordLocation(e.target.checked)} />
+              <span className="text-[10px] font-bold uppercase text-slate-500">{t('signing.recordLocation')}</span>
+            </label>
             <div className="mt-6 flex justify-end gap-3">
               <button onClick={() => setAppState(AppState.EDITING)} className="bg-slate-100 text-slate-700 px-6 py-2 rounded-lg font-bold text-sm">
-                Back
+                {t('common.back')}
               </button>
               <button onClick={() => setAppState(AppState.EDITING)} className="bg-blue-600 text-white px-8 py-2 rounded-lg font-bold text-sm">
-                Confirm
+                {t('common.confirm')}
               </button>
             </div>
           </div>
@@ -0,0 +1,84 @@
+import { existsSync, readdirSync } from "fs";
+import path from "path";
+import type { IncomingMessage, ServerResponse } from "http";
+import type { Plugin, ViteDevServer } from "vite";
+
+const API_DIR = path.resolve(process.cwd(), "api");
+
+// ✅ /api/timesheets/abc -> api/timesheets/[id].ts com { id: "abc" }
+const resolveRoute = (urlPath: string): { file: string; params: Record<string, string> } | null => {
+  const segments = urlPath.replace(/^\/api\/?/, "").split("/").filter(Boolean);
+  const direct = path.join(API_DIR, ...segments);
+  if (existsSync(`${direct}.ts`)) return { file: `${direct}.ts`, params: {} };
+  if (existsSync(path.join(direct, "index.ts"))) return { file: path.join(direct, "index.ts"), params: {} };
+
+  const parent = path.join(API_DIR, ...segments.slice(0, -1));
+  if (!segments.length || !existsSync(parent)) return null;
+  const dynamic = readdirSync(parent).find(name => /^\[\w+\]\.ts$/.test(name));
+  if (!dynamic) return null;
+  return { file: path.join(parent, dynamic), params: { [dynamic.slice(1, -4)]: decodeURIComponent(segments[segments.length - 1]) } };
+};
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<any>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", chunk => chunks.push(chunk));
+    req.on("end", () => {
+      const raw = Buffer.concat(chunks).toString("utf8");
+      try {
+        resolve(raw ? JSON.parse(raw) : undefined);
+      } catch {
+        resolve(raw);
+      }
+    });
+    req.on("error", reject);
+  });
+
+/**
+ * Roda as funções de api/ dentro do `npm run dev`, com a mesma interface
+ * mínima do @vercel/node (req.query, req.body, res.status().json()).
+ * Junto com EXTRACTION_PROVIDER=mock dá para testar o scan sem rede.
+ */
+export const apiDevServer = (env: Record<string, string>): Plugin => ({
+  name: "aes-api-dev-server",
+  configureServer(server: ViteDevServer) {
+    for (const [key, value] of Object.entries(env)) {
+      if (process.env[key] === undefined) process.env[key] = value;
+    }
+
+    server.middlewares.use(async (req, res: ServerResponse, next) => {
+      const url = new URL(req.url || "/", "http://localhost");
+      if (!url.pathname.startsWith("/api/")) return next();
+
+      const route = resolveRoute(url.pathname);
+      if (!route) {
+        res.statusCode = 404;
+        return res.end(JSON.stringify({ error: "Not found" }));
+      }
+
+      try {
+        const mod = await server.ssrLoadModule(route.file);
+        const vercelReq = Object.assign(req, {
+          query: { ...Object.fromEntries(url.searchParams), ...route.params },
+          body: await readBody(req),
+        });
+        const vercelRes = Object.assign(res, {
+          status(code: number) {
+            res.statusCode = code;
+            return vercelRes;
+          },
+          json(body: unknown) {
+            res.setHeader("Content-Type", "application/json");
+            res.end(JSON.stringify(body));
+            return vercelRes;
+          },
+        });
+        await mod.default(vercelReq, vercelRes);
+      } catch (err: any) {
+        console.error(`Dev API ${url.pathname} error:`, err);
+        res.statusCode = 500;
+        res.end(JSON.stringify({ error: String(err?.message || err) }));
+      }
+    });
+  },
+});
@@ -0,0 +1,33 @@
+import { GoogleGenAI } from "@google/genai";
+import { ExtractionError, ExtractionProvider, PageFile } from "./types";
+import { EXTRACTION_PROMPT, EXTRACTION_SCHEMA } from "./schema";
+
+export class GeminiExtractionProvider implements ExtractionProvider {
+  name = "gemini";
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string, private model = "gemini-3-flash-preview") {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async extractPage({ mimeType, data }: PageFile) {
+    const response = await this.ai.models.generateContent({
+      model: this.model,
+      contents: [
+        {
+          parts: [
+            { inlineData: { mimeType, data } },
+            { text: EXTRACTION_PROMPT },
+          ],
+        },
+      ],
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: EXTRACTION_SCHEMA,
+      },
+    });
+
+    if (!response.text) throw new ExtractionError("Empty model response", 500);
+    return JSON.parse(response.text);
+  }
+}
@@ -0,0 +1,27 @@
+import path from "path";
+import { ExtractionError, ExtractionProvider } from "./types";
+import { GeminiExtractionProvider } from "./gemini";
+import { MockExtractionProvider } from "./mock";
+
+export * from "./types";
+
+const providers: Record<string, () => ExtractionProvider> = {
+  gemini: () => {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) throw new ExtractionError("Missing GEMINI_API_KEY on server", 500);
+    return new GeminiExtractionProvider(apiKey, process.env.EXTRACTION_MODEL || undefined);
+  },
+  mock: () =>
+    new MockExtractionProvider(process.env.EXTRACTION_FIXTURES_DIR || path.join(process.cwd(), "fixtures", "extraction")),
+};
+
+export const registerExtractionProvider = (name: string, factory: () => ExtractionProvider) => {
+  providers[name] = factory;
+};
+
+export const getExtractionProvider = (): ExtractionProvider => {
+  const name = process.env.EXTRACTION_PROVIDER || "gemini";
+  const factory = providers[name];
+  if (!factory) throw new ExtractionError(`Unknown EXTRACTION_PROVIDER "${name}"`, 500);
+  return factory();
+};
@@ -0,0 +1,32 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { ExtractionError, ExtractionProvider, PageFile } from "./types";
+import { PageExtraction } from "../mergeExtraction";
+
+/**
+ * Provider offline: responde com fixtures em JSON, sem rede nem chave.
+ * Procura `<sha256 do arquivo>.json` (resposta fixa para um print específico)
+ * e, se não existir, usa `default.json`.
+ */
+export class MockExtractionProvider implements ExtractionProvider {
+  name = "mock";
+
+  constructor(private dir: string) {}
+
+  private async readFixture(name: string): Promise<PageExtraction | null> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.dir, name), "utf8"));
+    } catch (err: any) {
+      if (err?.code === "ENOENT") return null;
+      throw err;
+    }
+  }
+
+  async extractPage({ data }: PageFile) {
+    const hash = createHash("sha256").update(data).digest("hex");
+    const fixture = (await this.readFixture(`${hash}.json`)) ?? (await this.readFixture("default.json"));
+    if (!fixture) throw new ExtractionError(`No fixture for ${hash} and no default.json in ${this.dir}`, 500);
+    return fixture;
+  }
+}
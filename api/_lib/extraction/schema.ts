@@ -0,0 +1,63 @@
+import { Type } from "@google/genai";
+
+// ✅ prompt e schema compartilhados por todos os providers
+export const EXTRACTION_PROMPT = `Extract job and timesheet information from this "Absolute Environmental Services" print.
+It may be only one page of the job (for example just the material list); leave missing fields empty.
+If the document has several pages that disagree, use the value from the first page.
+
+Identify fields:
+- Client
+- Contact Name (Search within the notes/variations text in the print)
+- Contact Number (Telephone/Mobile)
+- Contact Email
+- Job No
+- Job Site Address
+- Task Description
+Also scan items used and quantities in the material grid.
+
+For every header field you fill, add an entry to "confidence" with a score from 0 to 1
+(1 = printed clearly, below 0.8 = guessed, partly legible or inferred) and the exact text
+snippet you read it from as "source". Do the same for each item with its own
+"confidence" and "source".
+Return valid JSON.`;
+
+export const CONFIDENCE_FIELDS = ["description", "client", "contactName", "contactNumber", "contactEmail", "address", "jobId"];
+
+export const EXTRACTION_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    description: { type: Type.STRING },
+    client: { type: Type.STRING },
+    contactName: { type: Type.STRING },
+    contactNumber: { type: Type.STRING },
+    contactEmail: { type: Type.STRING },
+    address: { type: Type.STRING },
+    jobId: { type: Type.STRING },
+    items: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          description: { type: Type.STRING },
+          quantity: { type: Type.STRING },
+          confidence: { type: Type.NUMBER },
+          source: { type: Type.STRING },
+        },
+        required: ["description", "quantity"],
+      },
+    },
+    confidence: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          field: { type: Type.STRING, enum: CONFIDENCE_FIELDS },
+          score: { type: Type.NUMBER },
+          source: { type: Type.STRING },
+        },
+        required: ["field", "score"],
+      },
+    },
+  },
+  required: ["description", "client"],
+};
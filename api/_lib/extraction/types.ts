@@ -0,0 +1,19 @@
+import { PageExtraction } from "../mergeExtraction";
+
+export type PageFile = { mimeType: string; data: string };
+
+/**
+ * Quem lê um print/PDF e devolve os campos do schema compartilhado.
+ * Escolhido com EXTRACTION_PROVIDER (padrão "gemini").
+ */
+export interface ExtractionProvider {
+  name: string;
+  extractPage(file: PageFile): Promise<PageExtraction>;
+}
+
+export class ExtractionError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "ExtractionError";
+  }
+}
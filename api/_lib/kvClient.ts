@@ -0,0 +1,20 @@
+/**
+ * Minimal Redis REST client (Vercel KV / Upstash): one command per POST, no
+ * SDK. Configured with KV_REST_API_URL and KV_REST_API_TOKEN.
+ */
+export const kvConfigured = () => !!(process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN);
+
+export const kvCommand = async <T = unknown>(...args: (string | number)[]): Promise<T> => {
+  if (!kvConfigured()) throw new Error("KV_REST_API_URL / KV_REST_API_TOKEN are not set");
+  const res = await fetch(process.env.KV_REST_API_URL!, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${process.env.KV_REST_API_TOKEN}`, "Content-Type": "application/json" },
+    body: JSON.stringify(args.map(String)),
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok || body.error) throw new Error(body.error || `KV HTTP ${res.status}`);
+  return body.result as T;
+};
+
+// ✅ disco das funções serverless (/tmp) some a cada cold start: não serve de armazenamento
+export const isEphemeralHost = () => !!process.env.VERCEL;
@@ -0,0 +1,98 @@
+export type ExtractedItem = { description: string; quantity: string; confidence?: number; source?: string };
+
+export type ExtractedConfidence = { score: number; source?: string };
+
+// Result of one page/image sent to the model (same shape as the responseSchema)
+export type PageExtraction = {
+  description?: string;
+  client?: string;
+  contactName?: string;
+  contactNumber?: string;
+  contactEmail?: string;
+  address?: string;
+  jobId?: string;
+  items?: ExtractedItem[];
+  confidence?: { field: string; score: number; source?: string }[];
+};
+
+const HEADER_FIELDS = ["description", "client", "contactName", "contactNumber", "contactEmail", "address", "jobId"] as const;
+
+type HeaderField = (typeof HEADER_FIELDS)[number];
+
+export type MergedExtraction = Record<HeaderField, string> & {
+  items: ExtractedItem[];
+  confidence: Partial<Record<HeaderField, ExtractedConfidence>>;
+};
+
+const clean = (value: unknown) => String(value ?? "").trim();
+
+// ✅ aceita 0..1 ou 0..100 (o modelo às vezes devolve porcentagem)
+const normaliseScore = (value: unknown): number | undefined => {
+  const n = Number(value);
+  if (value === undefined || value === null || !Number.isFinite(n)) return undefined;
+  return Math.min(1, Math.max(0, n > 1 ? n / 100 : n));
+};
+
+const toConfidence = (score: unknown, source: unknown): ExtractedConfidence | undefined => {
+  const normalised = normaliseScore(score);
+  if (normalised === undefined) return undefined;
+  return clean(source) ? { score: normalised, source: clean(source) } : { score: normalised };
+};
+
+/**
+ * Junta as páginas na ordem em que foram enviadas:
+ * - campos do cabeçalho: vence a primeira página com valor preenchido
+ *   (a tela de detalhes do job vem primeiro);
+ * - itens: lista única por descrição (sem case); se o mesmo item aparece
+ *   em mais de uma página, vence a primeira quantidade preenchida.
+ * A confiança e o trecho de origem acompanham o valor que venceu.
+ */
+export const mergePageExtractions = (pages: PageExtraction[]): MergedExtraction => {
+  const merged: MergedExtraction = {
+    description: "",
+    client: "",
+    contactName: "",
+    contactNumber: "",
+    contactEmail: "",
+    address: "",
+    jobId: "",
+    items: [],
+    confidence: {},
+  };
+
+  const itemIndex = new Map<string, number>();
+
+  for (const page of pages) {
+    const pageConfidence = new Map((page.confidence || []).map(c => [c.field, c]));
+
+    for (const field of HEADER_FIELDS) {
+      if (merged[field] || !clean(page[field])) continue;
+      merged[field] = clean(page[field]);
+      const c = pageConfidence.get(field);
+      const confidence = c && toConfidence(c.score, c.source);
+      if (confidence) merged.confidence[field] = confidence;
+    }
+
+    for (const item of page.items || []) {
+      const description = clean(item.description);
+      const quantity = clean(item.quantity);
+      if (!description) continue;
+
+      const confidence = toConfidence(item.confidence, item.source);
+      const next: ExtractedItem = confidence
+        ? { description, quantity, confidence: confidence.score, source: confidence.source }
+        : { description, quantity };
+
+      const key = description.toLowerCase();
+      const existing = itemIndex.get(key);
+      if (existing === undefined) {
+        itemIndex.set(key, merged.items.length);
+        merged.items.push(next);
+      } else if (!merged.items[existing].quantity && quantity) {
+        merged.items[existing] = { ...next, description: merged.items[existing].description };
+      }
+    }
+  }
+
+  return merged;
+};
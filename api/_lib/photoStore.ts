@@ -0,0 +1,87 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { SavedTimesheet } from "../../types";
+import { isEphemeralHost, kvCommand, kvConfigured } from "./kvClient";
+import { assertValidId, defaultDataDir, TimesheetStoreError } from "./timesheetStore";
+
+/**
+ * Photo blobs for synced timesheets, keyed by photo id. Timesheets only carry
+ * the reference (id, caption, takenAt), so each request stays far below the
+ * function body limit and the list endpoint never ships images.
+ * Uses the same backend as the timesheet store (KV when configured).
+ */
+export interface PhotoStore {
+  get(id: string): Promise<string | null>;
+  put(id: string, dataUrl: string): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export class FilePhotoStore implements PhotoStore {
+  constructor(private dir: string) {}
+
+  private file(id: string) {
+    return path.join(this.dir, `${assertValidId(id)}.txt`);
+  }
+
+  async get(id: string) {
+    try {
+      return await fs.readFile(this.file(id), "utf8");
+    } catch (err: any) {
+      if (err?.code === "ENOENT") return null;
+      throw err;
+    }
+  }
+
+  async put(id: string, dataUrl: string) {
+    await fs.mkdir(this.dir, { recursive: true });
+    const target = this.file(id);
+    const tmp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, dataUrl);
+    await fs.rename(tmp, target);
+  }
+
+  async remove(id: string) {
+    await fs.rm(this.file(id), { force: true });
+  }
+}
+
+export class KvPhotoStore implements PhotoStore {
+  private key(id: string) {
+    return `photo:${assertValidId(id)}`;
+  }
+
+  get(id: string) {
+    return kvCommand<string | null>("GET", this.key(id));
+  }
+
+  async put(id: string, dataUrl: string) {
+    await kvCommand("SET", this.key(id), dataUrl);
+  }
+
+  async remove(id: string) {
+    await kvCommand("DEL", this.key(id));
+  }
+}
+
+let cached: PhotoStore | null = null;
+
+export const getPhotoStore = (): PhotoStore => {
+  if (cached) return cached;
+  const name = process.env.TIMESHEET_STORAGE || (kvConfigured() ? "kv" : "file");
+  if (name === "kv") cached = new KvPhotoStore();
+  else if (isEphemeralHost()) throw new TimesheetStoreError("Durable storage is required: configure KV (KV_REST_API_URL / KV_REST_API_TOKEN)", 503);
+  else cached = new FilePhotoStore(path.join(path.dirname(defaultDataDir()), "photos"));
+  return cached;
+};
+
+// ✅ só referência: a imagem vai por /api/photos/<id>
+export const withoutPhotoData = (entry: SavedTimesheet): SavedTimesheet =>
+  entry.photos ? { ...entry, photos: entry.photos.map(photo => ({ ...photo, dataUrl: "" })) } : entry;
+
+const DATA_URL = /^data:image\/[\w.+-]+;base64,[A-Za-z0-9+/=]+$/;
+
+export const parsePhotoBody = (body: any): string => {
+  const dataUrl = body?.dataUrl;
+  if (typeof dataUrl !== "string" || !DATA_URL.test(dataUrl)) throw new TimesheetStoreError("Photo dataUrl is required");
+  return dataUrl;
+};
@@ -0,0 +1,106 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { defaultDataDir, TimesheetStoreError } from "./timesheetStore";
+import { isEphemeralHost, kvCommand, kvConfigured } from "./kvClient";
+
+export const FIRST_SERIAL = 21215;
+
+export type SerialBlock = { start: number; end: number; deviceId: string; issuedAt: number };
+
+type SerialState = { next: number; blocks: SerialBlock[] };
+
+const counterFile = () =>
+  process.env.SERIAL_COUNTER_FILE || path.join(path.dirname(defaultDataDir()), "serials.json");
+
+const blockSize = () => {
+  const n = Number(process.env.SERIAL_BLOCK_SIZE);
+  return Number.isInteger(n) && n > 0 ? n : 20;
+};
+
+// ✅ contador antigo de um aparelho começava no FIRST_SERIAL: acima disso só um bloco à frente do atual
+const legacyWindow = () => {
+  const n = Number(process.env.SERIAL_LEGACY_WINDOW);
+  return Number.isInteger(n) && n > 0 ? n : 10000;
+};
+
+const maxMinimum = (current: number) => Math.max(FIRST_SERIAL + legacyWindow(), current + blockSize());
+
+const minimumOutOfRange = (minimum: number) =>
+  new TimesheetStoreError(`Serial minimum ${minimum} is out of range`, 400);
+
+const readState = async (file: string): Promise<SerialState> => {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8"));
+  } catch (err: any) {
+    if (err?.code === "ENOENT") return { next: FIRST_SERIAL, blocks: [] };
+    throw err;
+  }
+};
+
+// ✅ arquivo: só para rodar local (um processo); uma reserva por vez
+let queue: Promise<unknown> = Promise.resolve();
+
+const allocateFromFile = (deviceId: string, minimum: number): Promise<SerialBlock> => {
+  const run = async () => {
+    const file = counterFile();
+    const state = await readState(file);
+    if (minimum > maxMinimum(state.next)) throw minimumOutOfRange(minimum);
+    const start = Math.max(state.next, Math.floor(minimum));
+    const block: SerialBlock = { start, end: start + blockSize() - 1, deviceId, issuedAt: Date.now() };
+
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify({ next: block.end + 1, blocks: [...state.blocks, block] }));
+    await fs.rename(tmp, file);
+    return block;
+  };
+
+  const result = queue.then(run, run);
+  queue = result.catch(() => undefined);
+  return result;
+};
+
+// lê, confere o mínimo, avança e registra a faixa num único EVAL: atômico entre instâncias
+const ALLOCATE_SCRIPT = `
+local current = tonumber(redis.call('GET', KEYS[1]) or ARGV[1])
+if tonumber(ARGV[2]) > math.max(tonumber(ARGV[6]), current + tonumber(ARGV[3])) then return -1 end
+local start = math.max(current, tonumber(ARGV[2]))
+redis.call('SET', KEYS[1], start + tonumber(ARGV[3]))
+redis.call('RPUSH', KEYS[2], cjson.encode({ start = start, ["end"] = start + tonumber(ARGV[3]) - 1, deviceId = ARGV[4], issuedAt = tonumber(ARGV[5]) }))
+return start
+`;
+
+const allocateFromKv = async (deviceId: string, minimum: number): Promise<SerialBlock> => {
+  const size = blockSize();
+  const issuedAt = Date.now();
+  const start = Number(await kvCommand<number>(
+    "EVAL", ALLOCATE_SCRIPT, 2, "serials:next", "serials:blocks", FIRST_SERIAL, Math.floor(minimum), size, deviceId, issuedAt,
+    FIRST_SERIAL + legacyWindow()
+  ));
+  if (start < 0) throw minimumOutOfRange(minimum);
+  return { start, end: start + size - 1, deviceId, issuedAt };
+};
+
+/**
+ * Reserva uma faixa contínua de serials para um aparelho. Faixas nunca se
+ * repetem: o contador só anda para frente e respeita o maior serial que o
+ * aparelho já usou (`minimum`, vindo do contador antigo do localStorage).
+ * O mínimo vem do cliente: fora da janela do contador antigo e mais de um
+ * bloco à frente do contador atual é recusado (400), para um pedido só não
+ * empurrar os serials de todos os aparelhos.
+ * Publicado, o contador precisa ser compartilhado (KV); o disco da função
+ * recomeça a cada cold start e daria a mesma faixa a dois aparelhos.
+ */
+export const allocateSerialBlock = (deviceId: string, minimum = 0): Promise<SerialBlock> => {
+  if (!Number.isFinite(minimum)) return Promise.reject(minimumOutOfRange(minimum));
+  if (kvConfigured()) return allocateFromKv(deviceId, minimum);
+  if (isEphemeralHost()) {
+    return Promise.reject(new TimesheetStoreError("Serial counter needs durable storage: configure KV (KV_REST_API_URL / KV_REST_API_TOKEN)", 503));
+  }
+  return allocateFromFile(deviceId, minimum);
+};
+
+export const assertDeviceId = (value: unknown): string => {
+  if (typeof value !== "string" || !/^[A-Za-z0-9_-]{1,64}$/.test(value)) throw new TimesheetStoreError("Invalid deviceId");
+  return value;
+};
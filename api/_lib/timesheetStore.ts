@@ -0,0 +1,197 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { HistoryFilter, SavedTimesheet } from "../../types";
+import { isEphemeralHost, kvCommand, kvConfigured } from "./kvClient";
+
+/**
+ * Storage adapter for the timesheet API. Locally the default is file based
+ * (one JSON file per timesheet) so it runs without any cloud service; when KV
+ * is configured it is used instead, and a deployed function refuses the file
+ * store (its disk does not survive a cold start). Other adapters can be
+ * registered and chosen with TIMESHEET_STORAGE.
+ */
+export interface TimesheetStore {
+  list(filter?: HistoryFilter): Promise<SavedTimesheet[]>;
+  get(id: string): Promise<SavedTimesheet | null>;
+  create(entry: SavedTimesheet): Promise<SavedTimesheet>;
+  update(id: string, entry: SavedTimesheet): Promise<SavedTimesheet | null>;
+  remove(id: string): Promise<boolean>;
+}
+
+export class TimesheetStoreError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "TimesheetStoreError";
+  }
+}
+
+const VALID_ID = /^[A-Za-z0-9_-]{1,64}$/;
+
+export const assertValidId = (id: unknown): string => {
+  if (typeof id !== "string" || !VALID_ID.test(id)) throw new TimesheetStoreError("Invalid timesheet id");
+  return id;
+};
+
+export const matchesFilter = (entry: SavedTimesheet, filter: HistoryFilter = {}) => {
+  const has = (value: string, query?: string) =>
+    !query || (value || "").toLowerCase().includes(query.trim().toLowerCase());
+  return (
+    has(entry.data?.client, filter.client) &&
+    has(entry.data?.jobId, filter.jobId) &&
+    (!filter.serial || String(entry.serial) === filter.serial.trim())
+  );
+};
+
+export class FileTimesheetStore implements TimesheetStore {
+  constructor(private dir: string) {}
+
+  private file(id: string) {
+    return path.join(this.dir, `${assertValidId(id)}.json`);
+  }
+
+  private async write(entry: SavedTimesheet) {
+    await fs.mkdir(this.dir, { recursive: true });
+    const target = this.file(entry.id);
+    const tmp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(entry));
+    await fs.rename(tmp, target);
+  }
+
+  async list(filter?: HistoryFilter) {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.dir);
+    } catch (err: any) {
+      if (err?.code === "ENOENT") return [];
+      throw err;
+    }
+
+    const entries = await Promise.all(
+      names
+        .filter(name => name.endsWith(".json"))
+        .map(async name => JSON.parse(await fs.readFile(path.join(this.dir, name), "utf8")) as SavedTimesheet)
+    );
+    return entries.filter(e => matchesFilter(e, filter)).sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  async get(id: string) {
+    try {
+      return JSON.parse(await fs.readFile(this.file(id), "utf8")) as SavedTimesheet;
+    } catch (err: any) {
+      if (err?.code === "ENOENT") return null;
+      throw err;
+    }
+  }
+
+  async create(entry: SavedTimesheet) {
+    if (await this.get(entry.id)) throw new TimesheetStoreError("Timesheet already exists", 409);
+    await this.write(entry);
+    return entry;
+  }
+
+  async update(id: string, entry: SavedTimesheet) {
+    if (!(await this.get(id))) return null;
+    const next = { ...entry, id };
+    await this.write(next);
+    return next;
+  }
+
+  async remove(id: string) {
+    try {
+      await fs.unlink(this.file(id));
+      return true;
+    } catch (err: any) {
+      if (err?.code === "ENOENT") return false;
+      throw err;
+    }
+  }
+}
+
+// ✅ um registro por folha + um set com os ids (KV não lista chaves de forma barata)
+export class KvTimesheetStore implements TimesheetStore {
+  constructor(private prefix = "timesheet") {}
+
+  private key(id: string) {
+    return `${this.prefix}:${assertValidId(id)}`;
+  }
+
+  async list(filter?: HistoryFilter) {
+    const ids = await kvCommand<string[]>("SMEMBERS", `${this.prefix}s`);
+    if (!ids.length) return [];
+    const raw = await kvCommand<(string | null)[]>("MGET", ...ids.map(id => this.key(id)));
+    return raw
+      .filter((value): value is string => !!value)
+      .map(value => JSON.parse(value) as SavedTimesheet)
+      .filter(e => matchesFilter(e, filter))
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  async get(id: string) {
+    const raw = await kvCommand<string | null>("GET", this.key(id));
+    return raw ? (JSON.parse(raw) as SavedTimesheet) : null;
+  }
+
+  async create(entry: SavedTimesheet) {
+    const ok = await kvCommand<string | null>("SET", this.key(entry.id), JSON.stringify(entry), "NX");
+    if (!ok) throw new TimesheetStoreError("Timesheet already exists", 409);
+    await kvCommand("SADD", `${this.prefix}s`, entry.id);
+    return entry;
+  }
+
+  async update(id: string, entry: SavedTimesheet) {
+    const next = { ...entry, id };
+    const ok = await kvCommand<string | null>("SET", this.key(id), JSON.stringify(next), "XX");
+    return ok ? next : null;
+  }
+
+  async remove(id: string) {
+    const removed = await kvCommand<number>("DEL", this.key(id));
+    await kvCommand("SREM", `${this.prefix}s`, id);
+    return removed > 0;
+  }
+}
+
+export const defaultDataDir = () =>
+  process.env.TIMESHEET_DATA_DIR || path.join(process.cwd(), "data", "timesheets");
+
+let cached: TimesheetStore | null = null;
+
+const adapters: Record<string, () => TimesheetStore> = {
+  file: () => {
+    if (isEphemeralHost()) throw new TimesheetStoreError("Durable storage is required: configure KV (KV_REST_API_URL / KV_REST_API_TOKEN)", 503);
+    return new FileTimesheetStore(defaultDataDir());
+  },
+  kv: () => new KvTimesheetStore(),
+};
+
+export const registerTimesheetStore = (name: string, factory: () => TimesheetStore) => {
+  adapters[name] = factory;
+  cached = null;
+};
+
+export const getTimesheetStore = (): TimesheetStore => {
+  if (cached) return cached;
+  const name = process.env.TIMESHEET_STORAGE || (kvConfigured() ? "kv" : "file");
+  const factory = adapters[name];
+  if (!factory) throw new TimesheetStoreError(`Unknown TIMESHEET_STORAGE "${name}"`, 500);
+  cached = factory();
+  return cached;
+};
+
+// ✅ valida o corpo mínimo de um SavedTimesheet vindo do app
+export const parseTimesheetBody = (body: any): SavedTimesheet => {
+  if (!body || typeof body !== "object") throw new TimesheetStoreError("Timesheet body is required");
+  if (!body.data || typeof body.data !== "object") throw new TimesheetStoreError("Timesheet data is required");
+  if (!Number.isFinite(Number(body.serial))) throw new TimesheetStoreError("Timesheet serial is required");
+
+  // syncedAt é controle local do aparelho, não vai para o servidor
+  const { syncedAt, ...rest } = body;
+  return {
+    ...rest,
+    id: assertValidId(body.id),
+    serial: Number(body.serial),
+    timestamp: Number.isFinite(Number(body.timestamp)) ? Number(body.timestamp) : Date.now(),
+    mySignature: body.mySignature ?? null,
+    supervisorSignature: body.supervisorSignature ?? null,
+  };
+};
@@ -1,77 +1,45 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-import { GoogleGenAI, Type } from "@google/genai";
+import { mergePageExtractions, PageExtraction } from "./_lib/mergeExtraction";
+import { ExtractionError, getExtractionProvider } from "./_lib/extraction";
+
+const MAX_FILES = 6;
+const SUPPORTED_MIME = ["image/png", "image/jpeg", "application/pdf"];
+
+// ✅ "data:application/pdf;base64,..." -> { mimeType, data }
+const parseDataUrl = (value: string) => {
+  const m = value.match(/^data:([^;,]+);base64,(.*)$/s);
+  if (!m) return { mimeType: value.includes("image/png") ? "image/png" : "image/jpeg", data: value.split(",").pop() || "" };
+  return { mimeType: m[1], data: m[2] };
+};
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
     if (req.method !== "POST") return res.status(405).json({ error: "Method not allowed" });
 
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) return res.status(500).json({ error: "Missing GEMINI_API_KEY on server" });
-
-    const { base64Image } = req.body || {};
-    if (!base64Image || typeof base64Image !== "string") {
-      return res.status(400).json({ error: "base64Image is required" });
+    // ✅ images[] (vários prints/PDFs do mesmo job); base64Image continua aceito
+    const { images, base64Image } = req.body || {};
+    const files: unknown[] = Array.isArray(images) ? images : base64Image ? [base64Image] : [];
+    if (files.length === 0 || files.some(f => !f || typeof f !== "string")) {
+      return res.status(400).json({ error: "images[] is required" });
+    }
+    if (files.length > MAX_FILES) {
+      return res.status(400).json({ error: `At most ${MAX_FILES} files per scan` });
     }
 
-    const mimeType = base64Image.includes("image/png") ? "image/png" : "image/jpeg";
-
-    const ai = new GoogleGenAI({ apiKey });
-
-    const prompt = `Extract job and timesheet information from this "Absolute Environmental Services" print.
-
-Identify fields:
-- Client
-- Contact Name (Search within the notes/variations text in the print)
-- Contact Number (Telephone/Mobile)
-- Job No
-- Job Site Address
-- Task Description
-Also scan items used and quantities in the material grid.
-Return valid JSON.`;
+    const parts = (files as string[]).map(parseDataUrl);
+    const unsupported = parts.find(p => !SUPPORTED_MIME.includes(p.mimeType));
+    if (unsupported) return res.status(400).json({ error: `Unsupported file type ${unsupported.mimeType}` });
 
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: [
-        {
-          parts: [
-            { inlineData: { mimeType, data: base64Image.split(",")[1] } },
-            { text: prompt },
-          ],
-        },
-      ],
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            description: { type: Type.STRING },
-            client: { type: Type.STRING },
-            contactName: { type: Type.STRING },
-            contactNumber: { type: Type.STRING },
-            address: { type: Type.STRING },
-            jobId: { type: Type.STRING },
-            items: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  description: { type: Type.STRING },
-                  quantity: { type: Type.STRING },
-                },
-                required: ["description", "quantity"],
-              },
-            },
-          },
-          required: ["description", "client"],
-        },
-      },
-    });
+    const provider = getExtractionProvider();
 
-    if (!response.text) return res.status(500).json({ error: "Empty model response" });
+    // ✅ uma chamada por arquivo, em sequência (evita 429), depois merge determinístico
+    const pages: PageExtraction[] = [];
+    for (const part of parts) pages.push(await provider.extractPage(part));
 
-    const parsed = JSON.parse(response.text);
+    const parsed = mergePageExtractions(pages);
     return res.status(200).json(parsed);
   } catch (err: any) {
+    if (err instanceof ExtractionError) return res.status(err.status).json({ error: err.message });
     console.error("API /extract error:", err);
     return res.status(500).json({ error: String(err?.message || err) });
   }
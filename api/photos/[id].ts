@@ -0,0 +1,33 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { assertValidId, TimesheetStoreError } from "../_lib/timesheetStore";
+import { getPhotoStore, parsePhotoBody } from "../_lib/photoStore";
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    const store = getPhotoStore();
+    const id = assertValidId(Array.isArray(req.query.id) ? req.query.id[0] : req.query.id);
+
+    if (req.method === "GET") {
+      const dataUrl = await store.get(id);
+      if (!dataUrl) return res.status(404).json({ error: "Photo not found" });
+      return res.status(200).json({ id, dataUrl });
+    }
+
+    if (req.method === "PUT") {
+      // ✅ foto não muda depois de tirada: PUT repetido só regrava o mesmo conteúdo
+      await store.put(id, parsePhotoBody(req.body));
+      return res.status(204).end();
+    }
+
+    if (req.method === "DELETE") {
+      await store.remove(id);
+      return res.status(204).end();
+    }
+
+    return res.status(405).json({ error: "Method not allowed" });
+  } catch (err: any) {
+    if (err instanceof TimesheetStoreError) return res.status(err.status).json({ error: err.message });
+    console.error("API /photos/[id] error:", err);
+    return res.status(500).json({ error: String(err?.message || err) });
+  }
+}
@@ -0,0 +1,17 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { TimesheetStoreError } from "./_lib/timesheetStore";
+import { allocateSerialBlock, assertDeviceId } from "./_lib/serialAllocator";
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method !== "POST") return res.status(405).json({ error: "Method not allowed" });
+
+    const { deviceId, minimum } = req.body || {};
+    const block = await allocateSerialBlock(assertDeviceId(deviceId), Number(minimum) || 0);
+    return res.status(201).json(block);
+  } catch (err: any) {
+    if (err instanceof TimesheetStoreError) return res.status(err.status).json({ error: err.message });
+    console.error("API /serials error:", err);
+    return res.status(500).json({ error: String(err?.message || err) });
+  }
+}
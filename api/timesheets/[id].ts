@@ -0,0 +1,38 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { assertValidId, getTimesheetStore, parseTimesheetBody, TimesheetStoreError } from "../_lib/timesheetStore";
+import { getPhotoStore, withoutPhotoData } from "../_lib/photoStore";
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    const store = getTimesheetStore();
+    const id = assertValidId(Array.isArray(req.query.id) ? req.query.id[0] : req.query.id);
+
+    if (req.method === "GET") {
+      const entry = await store.get(id);
+      if (!entry) return res.status(404).json({ error: "Timesheet not found" });
+      return res.status(200).json(withoutPhotoData(entry));
+    }
+
+    if (req.method === "PUT") {
+      const entry = withoutPhotoData(parseTimesheetBody({ ...req.body, id }));
+      // ✅ PUT faz upsert: o app sincroniza sem saber se já existe no servidor
+      const saved = (await store.update(id, entry)) ?? (await store.create(entry));
+      return res.status(200).json(saved);
+    }
+
+    if (req.method === "DELETE") {
+      const entry = await store.get(id);
+      const removed = await store.remove(id);
+      if (!removed) return res.status(404).json({ error: "Timesheet not found" });
+      const photos = getPhotoStore();
+      await Promise.all((entry?.photos ?? []).map(photo => photos.remove(photo.id)));
+      return res.status(204).end();
+    }
+
+    return res.status(405).json({ error: "Method not allowed" });
+  } catch (err: any) {
+    if (err instanceof TimesheetStoreError) return res.status(err.status).json({ error: err.message });
+    console.error("API /timesheets/[id] error:", err);
+    return res.status(500).json({ error: String(err?.message || err) });
+  }
+}
@@ -0,0 +1,31 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getTimesheetStore, parseTimesheetBody, TimesheetStoreError } from "../_lib/timesheetStore";
+import { withoutPhotoData } from "../_lib/photoStore";
+
+const queryString = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value) || undefined;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    const store = getTimesheetStore();
+
+    if (req.method === "GET") {
+      const entries = await store.list({
+        client: queryString(req.query.client),
+        jobId: queryString(req.query.jobId),
+        serial: queryString(req.query.serial),
+      });
+      return res.status(200).json(entries.map(withoutPhotoData));
+    }
+
+    if (req.method === "POST") {
+      const created = await store.create(withoutPhotoData(parseTimesheetBody(req.body)));
+      return res.status(201).json(created);
+    }
+
+    return res.status(405).json({ error: "Method not allowed" });
+  } catch (err: any) {
+    if (err instanceof TimesheetStoreError) return res.status(err.status).json({ error: err.message });
+    console.error("API /timesheets error:", err);
+    return res.status(500).json({ error: String(err?.message || err) });
+  }
+}
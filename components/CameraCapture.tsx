@@ -0,0 +1,140 @@
+import React, { useEffect, useRef, useState } from "react";
+import { CARD_GUIDE, captureCard } from "../services/cardScan";
+import { t } from "../services/i18n";
+
+type Props = {
+  onDone: (images: string[]) => void;
+  onCancel: () => void;
+};
+
+export const CameraCapture: React.FC<Props> = ({ onDone, onCancel }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [ready, setReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [shots, setShots] = useState<string[]>([]);
+
+  // ✅ câmera traseira; para a câmera ao fechar
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError(t('camera.unsupported'));
+      return;
+    }
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: { ideal: "environment" }, width: { ideal: 1920 }, height: { ideal: 1080 } }, audio: false })
+      .then(media => {
+        if (cancelled) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = media;
+        if (videoRef.current) videoRef.current.srcObject = media;
+      })
+      .catch(err => {
+        console.error("Camera error:", err);
+        setError(t('camera.denied'));
+      });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    try {
+      setShots(prev => [...prev, captureCard(video)]);
+    } catch (err) {
+      console.error("Capture error:", err);
+      setError(t('camera.captureFailed'));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[150] bg-slate-900/90 flex items-center justify-center p-4 no-print">
+      <div className="bg-white rounded-2xl p-4 w-full max-w-lg shadow-2xl flex flex-col gap-3 max-h-[95vh]">
+        <div className="flex justify-between items-center">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <i className="fas fa-camera text-blue-600"></i> {t('camera.title')}
+          </h2>
+          <span className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">{t('camera.count', { n: shots.length })}</span>
+        </div>
+
+        {error ? (
+          <p className="text-sm text-red-600 p-4 bg-red-50 rounded-lg">{error}</p>
+        ) : (
+          <div className="relative bg-black rounded-lg overflow-hidden">
+            <video
+              ref={videoRef}
+              autoPlay
+              playsInline
+              muted
+              onLoadedMetadata={() => setReady(true)}
+              className="w-full h-auto block"
+            />
+            {/* moldura: o recorte parte dela; o cartão deve preencher quase tudo */}
+            <div
+              className="absolute border-2 border-white/90 rounded-md shadow-[0_0_0_9999px_rgba(0,0,0,0.45)] pointer-events-none"
+              style={{
+                left: `${CARD_GUIDE.x * 100}%`,
+                top: `${CARD_GUIDE.y * 100}%`,
+                width: `${CARD_GUIDE.width * 100}%`,
+                height: `${CARD_GUIDE.height * 100}%`,
+              }}
+            >
+              <span className="absolute -top-0.5 left-1/2 -translate-x-1/2 -translate-y-full text-[10px] text-white font-bold uppercase">
+                {t('camera.alignGuide')}
+              </span>
+            </div>
+          </div>
+        )}
+
+        {shots.length > 0 && (
+          <div className="flex gap-2 overflow-x-auto">
+            {shots.map((shot, idx) => (
+              <div key={idx} className="relative shrink-0">
+                <img src={shot} className="h-20 rounded border object-contain bg-slate-50" />
+                <button
+                  type="button"
+                  onClick={() => setShots(prev => prev.filter((_, i) => i !== idx))}
+                  className="absolute top-0.5 right-0.5 bg-white/90 text-red-500 rounded-full w-5 h-5 text-[10px]"
+                >
+                  <i className="fas fa-times"></i>
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-between gap-3 border-t pt-3">
+          <button type="button" onClick={onCancel} className="bg-slate-100 text-slate-700 px-6 py-2 rounded-lg font-bold text-sm">
+            {t('common.cancel')}
+          </button>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={capture}
+              disabled={!ready || !!error}
+              className="bg-slate-800 text-white px-4 py-2 rounded-lg font-bold text-sm disabled:opacity-50"
+            >
+              <i className="fas fa-circle mr-2"></i> {t('camera.capture')}
+            </button>
+            <button
+              type="button"
+              onClick={() => onDone(shots)}
+              disabled={shots.length === 0}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg font-bold text-sm disabled:opacity-50"
+            >
+              {shots.length > 1 ? t('camera.readMany', { n: shots.length }) : t('camera.readOne')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
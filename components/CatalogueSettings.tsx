@@ -0,0 +1,163 @@
+import React, { useState } from "react";
+import { CatalogueCategory, CatalogueItem } from "../types";
+import { CATALOGUE_SECTIONS, DEFAULT_CATALOGUE, catalogueByCategory } from "../services/catalogueService";
+import { t } from "../services/i18n";
+
+type Props = {
+  catalogue: CatalogueItem[];
+  onSave: (catalogue: CatalogueItem[]) => void;
+  onCancel: () => void;
+};
+
+const SECTION_COLORS: Record<CatalogueCategory, string> = {
+  material: "text-blue-600",
+  plant: "text-orange-600",
+  environmental: "text-green-600",
+};
+
+export const CatalogueSettings: React.FC<Props> = ({ catalogue, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<CatalogueItem[]>(catalogue);
+
+  const update = (id: string, patch: Partial<CatalogueItem>) => {
+    setDraft(prev => prev.map(c => (c.id === id ? { ...c, ...patch } : c)));
+  };
+
+  // ✅ troca a ordem com o vizinho dentro da mesma categoria
+  const move = (category: CatalogueCategory, index: number, delta: number) => {
+    const list = catalogueByCategory(draft, category);
+    const target = list[index + delta];
+    if (!target) return;
+    const current = list[index];
+    setDraft(prev =>
+      prev.map(c => {
+        if (c.id === current.id) return { ...c, order: target.order };
+        if (c.id === target.id) return { ...c, order: current.order };
+        return c;
+      })
+    );
+  };
+
+  const add = (category: CatalogueCategory) => {
+    const list = catalogueByCategory(draft, category);
+    const order = list.length ? list[list.length - 1].order + 1 : 0;
+    setDraft(prev => [
+      ...prev,
+      { id: `${category}-${Date.now().toString(36)}`, name: "", category, unit: "ea", order, active: true },
+    ]);
+  };
+
+  // só item ainda não salvo sai de vez; os outros nenhuma folha deixa de achar (ficam inativos)
+  const remove = (id: string) => {
+    setDraft(prev => prev.filter(c => c.id !== id || !isNew(id)));
+  };
+
+  // ✅ padrão de volta sem apagar nada: item fora do padrão fica desativado, não some das folhas salvas
+  const restoreDefaults = () => {
+    setDraft(prev => [
+      // aliases ficam: nomes antigos ainda aparecem em folhas salvas
+      ...DEFAULT_CATALOGUE.map(d => ({ ...d, aliases: prev.find(c => c.id === d.id)?.aliases })),
+      ...prev
+        .filter(c => !isNew(c.id) && !DEFAULT_CATALOGUE.some(d => d.id === c.id))
+        .map(c => ({ ...c, active: false })),
+    ]);
+  };
+
+  const save = () => {
+    const original = new Map<string, CatalogueItem>(catalogue.map(c => [c.id, c]));
+    const cleaned = draft
+      .map(c => ({ ...c, name: c.name.trim(), unit: c.unit.trim() }))
+      // nome apagado num item já salvo: volta o nome antigo e o item só é desativado
+      .map(c => (c.name || !original.has(c.id) ? c : { ...c, name: original.get(c.id)!.name, active: false }))
+      .filter(c => c.name)
+      .map(c => {
+        // ✅ renomeado: o nome antigo vira alias para as folhas já salvas
+        const before = original.get(c.id);
+        if (!before || before.name === c.name) return c;
+        const aliases = Array.from(new Set([...(c.aliases || []), before.name])).filter(a => a !== c.name);
+        return { ...c, aliases };
+      });
+    onSave(cleaned);
+  };
+
+  const isNew = (id: string) => !catalogue.some(c => c.id === id);
+
+  return (
+    <div className="w-full max-w-[820px] mx-auto bg-white rounded-xl shadow-lg border border-slate-200 p-6 no-print flex flex-col gap-6">
+      <div className="flex justify-between items-center border-b pb-2">
+        <h2 className="text-xl font-bold flex items-center gap-2">
+          <i className="fas fa-cog text-blue-600"></i> {t('catalogue.title')}
+        </h2>
+        <button
+          type="button"
+          onClick={restoreDefaults}
+          className="text-[10px] text-slate-400 font-bold uppercase tracking-wider hover:text-slate-600"
+        >
+          {t('catalogue.restoreDefaults')}
+        </button>
+      </div>
+
+      {CATALOGUE_SECTIONS.filter(s => s.category !== "other").map(({ category, label }) => {
+        const cat = category as CatalogueCategory;
+        const list = catalogueByCategory(draft, cat);
+        return (
+          <div key={cat}>
+            <h4 className={`text-[10px] font-bold mb-2 border-b pb-1 uppercase ${SECTION_COLORS[cat]}`}>{label}</h4>
+            <div className="flex flex-col gap-1">
+              {list.map((c, idx) => (
+                <div key={c.id} className={`grid grid-cols-[1fr_70px_auto] gap-2 items-center ${c.active ? "" : "opacity-50"}`}>
+                  <input
+                    type="text"
+                    value={c.name}
+                    onChange={e => update(c.id, { name: e.target.value })}
+                    className="border p-1 rounded text-[11px]"
+                    placeholder={t('catalogue.descriptionPlaceholder')}
+                  />
+                  <input
+                    type="text"
+                    value={c.unit}
+                    onChange={e => update(c.id, { unit: e.target.value })}
+                    className="border p-1 rounded text-[11px] text-center"
+                    placeholder={t('catalogue.unitPlaceholder')}
+                  />
+                  <div className="flex items-center gap-1">
+                    <button type="button" onClick={() => move(cat, idx, -1)} disabled={idx === 0} className="px-2 py-1 text-slate-500 disabled:opacity-30">
+                      <i className="fas fa-arrow-up"></i>
+                    </button>
+                    <button type="button" onClick={() => move(cat, idx, 1)} disabled={idx === list.length - 1} className="px-2 py-1 text-slate-500 disabled:opacity-30">
+                      <i className="fas fa-arrow-down"></i>
+                    </button>
+                    <label className="flex items-center gap-1 text-[10px] font-bold uppercase text-slate-500 px-1">
+                      <input type="checkbox" checked={c.active} onChange={e => update(c.id, { active: e.target.checked })} />
+                      {t('catalogue.active')}
+                    </label>
+                    {isNew(c.id) && (
+                      <button type="button" onClick={() => remove(c.id)} className="text-red-400 hover:text-red-600 px-2 py-1">
+                        <i className="fas fa-trash-alt"></i>
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => add(cat)}
+              className="mt-2 text-[11px] font-bold text-blue-600 hover:text-blue-800"
+            >
+              <i className="fas fa-plus mr-1"></i> {t('catalogue.addItem')}
+            </button>
+          </div>
+        );
+      })}
+
+      <div className="flex justify-end gap-3 border-t pt-4">
+        <button type="button" onClick={onCancel} className="bg-slate-100 text-slate-700 px-6 py-2 rounded-lg font-bold text-sm">
+          {t('common.back')}
+        </button>
+        <button type="button" onClick={save} className="bg-blue-600 text-white px-8 py-2 rounded-lg font-bold text-sm">
+          {t('common.save')}
+        </button>
+      </div>
+    </div>
+  );
+};
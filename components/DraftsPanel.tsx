@@ -0,0 +1,55 @@
+import React from "react";
+import { TimesheetDraft } from "../types";
+import { t } from "../services/i18n";
+
+type Props = {
+  drafts: TimesheetDraft[];
+  onResume: (draft: TimesheetDraft) => void;
+  onDiscard: (id: string) => void;
+};
+
+// ✅ um rascunho por sessão; folhas do mesmo job ficam juntas (na ordem do mais novo)
+const groupByJob = (drafts: TimesheetDraft[]) => {
+  const groups = new Map<string, TimesheetDraft[]>();
+  drafts.forEach(draft => {
+    const job = draft.data.jobId.trim();
+    groups.set(job, [...(groups.get(job) ?? []), draft]);
+  });
+  return Array.from(groups.entries());
+};
+
+export const DraftsPanel: React.FC<Props> = ({ drafts, onResume, onDiscard }) => (
+  <div className="w-full max-w-[820px] mx-auto bg-white rounded-xl shadow-lg p-6 mb-6 no-print">
+    <h2 className="text-lg font-bold mb-4 flex items-center gap-2">
+      <i className="fas fa-pencil-alt text-amber-500"></i> {t('drafts.title')}
+    </h2>
+
+    <div className="flex flex-col gap-4">
+      {groupByJob(drafts).map(([job, group]) => (
+        <div key={job || "-"} className="flex flex-col gap-2">
+          <span className="text-[9px] font-bold uppercase text-slate-500">
+            {job ? t('drafts.job', { job }) : t('drafts.noJob')}{group.length > 1 && ` · ${t('drafts.count', { n: group.length })}`}
+          </span>
+          {group.map(draft => (
+            <div key={draft.id} className="flex items-center justify-between p-3 border border-amber-200 bg-amber-50/40 rounded-lg">
+              <div onClick={() => onResume(draft)} className="flex-1 cursor-pointer">
+                {draft.serial !== null && <span className="font-bold text-blue-600 mr-2">#{draft.serial}</span>}
+                {draft.data.date && <span className="font-bold text-slate-600 mr-2">{draft.data.date}</span>}
+                <span className="uppercase">{draft.data.client || t('drafts.untitled')}</span>
+                <div className="text-xs text-slate-400">
+                  {t(draft.sheetId ? 'drafts.unsavedChanges' : 'drafts.notExported')} · {new Date(draft.updatedAt).toLocaleString()}
+                </div>
+              </div>
+              <button type="button" onClick={() => onResume(draft)} className="text-blue-600 hover:text-blue-800 font-bold text-xs px-2">
+                {t('drafts.resume')}
+              </button>
+              <button type="button" onClick={() => onDiscard(draft.id)} title={t('drafts.discard')} className="text-red-400 hover:text-red-600 p-2">
+                <i className="fas fa-trash-alt"></i>
+              </button>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  </div>
+);
@@ -0,0 +1,123 @@
+import React, { useState } from "react";
+import { HistoryFilter, SavedTimesheet } from "../types";
+import { statusLabel, t } from "../services/i18n";
+import { isLockedStatus, statusOf } from "../services/statusService";
+
+type Props = {
+  entries: SavedTimesheet[];
+  filter: HistoryFilter;
+  onFilterChange: (filter: HistoryFilter) => void;
+  onLoad: (entry: SavedTimesheet) => void;
+  onDelete: (id: string) => void;
+  onExport: (entries: SavedTimesheet[], format: 'csv' | 'xlsx') => void;
+};
+
+export const HistoryPanel: React.FC<Props> = ({ entries, filter, onFilterChange, onLoad, onDelete, onExport }) => {
+  const [selected, setSelected] = useState<string[]>([]);
+  const set = (field: keyof HistoryFilter, value: string) => onFilterChange({ ...filter, [field]: value });
+  const hasFilter = Object.values(filter).some(Boolean);
+
+  // ✅ exporta os marcados; sem marcação, tudo o que o filtro mostra
+  const picked = entries.filter(e => selected.includes(e.id));
+  const toExport = picked.length ? picked : entries;
+  const toggle = (id: string) =>
+    setSelected(prev => (prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]));
+
+  return (
+    <div className="w-full max-w-[820px] mx-auto bg-white rounded-xl shadow-lg p-6 mb-10 no-print">
+      <h2 className="text-lg font-bold mb-4 flex items-center gap-2">
+        <i className="fas fa-history text-blue-500"></i> {t('history.title')}
+      </h2>
+
+      {/* ✅ Busca: cliente, job no, serial e período */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-2 mb-4 p-3 bg-slate-50 rounded-lg">
+        <div className="flex flex-col gap-0.5">
+          <label className="text-[9px] font-bold uppercase text-slate-500">{t('field.client')}</label>
+          <input type="text" value={filter.client || ""} onChange={e => set('client', e.target.value)} className="border p-1.5 rounded text-xs" />
+        </div>
+        <div className="flex flex-col gap-0.5">
+          <label className="text-[9px] font-bold uppercase text-slate-500">{t('field.jobNo')}</label>
+          <input type="text" value={filter.jobId || ""} onChange={e => set('jobId', e.target.value)} className="border p-1.5 rounded text-xs" />
+        </div>
+        <div className="flex flex-col gap-0.5">
+          <label className="text-[9px] font-bold uppercase text-slate-500">{t('history.serial')}</label>
+          <input type="text" value={filter.serial || ""} onChange={e => set('serial', e.target.value)} className="border p-1.5 rounded text-xs" />
+        </div>
+        <div className="flex flex-col gap-0.5">
+          <label className="text-[9px] font-bold uppercase text-slate-500">{t('history.from')}</label>
+          <input type="date" value={filter.dateFrom || ""} onChange={e => set('dateFrom', e.target.value)} className="border p-1.5 rounded text-xs" />
+        </div>
+        <div className="flex flex-col gap-0.5">
+          <label className="text-[9px] font-bold uppercase text-slate-500">{t('history.to')}</label>
+          <input type="date" value={filter.dateTo || ""} onChange={e => set('dateTo', e.target.value)} className="border p-1.5 rounded text-xs" />
+        </div>
+        {hasFilter && (
+          <button
+            type="button"
+            onClick={() => onFilterChange({})}
+            className="col-span-2 md:col-span-5 text-[10px] font-bold uppercase text-slate-500 hover:text-slate-700 text-right"
+          >
+            <i className="fas fa-times mr-1"></i> {t('history.clearFilters')}
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-end gap-2 mb-3">
+        <span className="text-[10px] font-bold uppercase text-slate-400 mr-auto">
+          {picked.length ? t('history.selected', { n: picked.length }) : t('history.inFilter', { n: entries.length })}
+        </span>
+        <button
+          type="button"
+          onClick={() => onExport(toExport, 'csv')}
+          disabled={toExport.length === 0}
+          className="px-3 py-1.5 text-xs font-bold border border-slate-200 rounded-lg hover:bg-slate-50 disabled:opacity-40"
+        >
+          <i className="fas fa-file-csv mr-1 text-green-600"></i> CSV
+        </button>
+        <button
+          type="button"
+          onClick={() => onExport(toExport, 'xlsx')}
+          disabled={toExport.length === 0}
+          className="px-3 py-1.5 text-xs font-bold border border-slate-200 rounded-lg hover:bg-slate-50 disabled:opacity-40"
+        >
+          <i className="fas fa-file-excel mr-1 text-green-700"></i> Excel
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 gap-3">
+        {entries.length === 0 && (
+          <p className="text-sm text-slate-400 italic text-center py-4">{t('history.empty')}</p>
+        )}
+        {entries.map(item => (
+          <div
+            key={item.id}
+            className="flex items-center justify-between p-3 border rounded-lg hover:bg-slate-50 transition cursor-pointer"
+          >
+            <input
+              type="checkbox"
+              checked={selected.includes(item.id)}
+              onChange={() => toggle(item.id)}
+              className="mr-3"
+            />
+            <div onClick={() => onLoad(item)} className="flex-1">
+              <span className="font-bold text-blue-600">#{item.serial}</span>
+              {item.provisionalSerial && <span className="ml-1 text-[10px] text-slate-400">({t('history.provisional', { serial: item.provisionalSerial })})</span>}
+              {" "}- {item.data.client}
+              {item.data.jobId && <span className="ml-2 text-xs font-bold text-slate-500">{item.data.jobId}</span>}
+              <span className="ml-4 text-xs text-slate-400">{item.data.date || new Date(item.timestamp).toLocaleDateString()}</span>
+              <span className={`ml-3 text-[9px] font-bold uppercase ${isLockedStatus(statusOf(item)) ? "text-green-600" : "text-amber-600"}`}>
+                {statusLabel(statusOf(item))}{(item.revision ?? 1) > 1 && ` · rev ${item.revision}`}
+              </span>
+            </div>
+            <button
+              onClick={(e) => { e.stopPropagation(); onDelete(item.id); }}
+              className="text-red-400 hover:text-red-600 p-2"
+            >
+              <i className="fas fa-trash-alt"></i>
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
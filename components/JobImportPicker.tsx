@@ -0,0 +1,68 @@
+import React, { useState } from "react";
+import { ImportedJob } from "../services/jobImportService";
+import { t } from "../services/i18n";
+
+type Props = {
+  jobs: ImportedJob[];
+  onPick: (job: ImportedJob) => void;
+  onCancel: () => void;
+};
+
+export const JobImportPicker: React.FC<Props> = ({ jobs, onPick, onCancel }) => {
+  const [query, setQuery] = useState("");
+  const q = query.trim().toLowerCase();
+  const visible = q
+    ? jobs.filter(j => [j.jobId, j.client, j.address, j.description].some(v => v.toLowerCase().includes(q)))
+    : jobs;
+
+  return (
+    <div className="fixed inset-0 z-[150] bg-slate-900/90 flex items-center justify-center p-4 no-print">
+      <div className="bg-white rounded-2xl p-6 w-full max-w-2xl shadow-2xl flex flex-col gap-4 max-h-[90vh]">
+        <div className="flex justify-between items-center">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <i className="fas fa-file-import text-blue-600"></i> {t('jobImport.title')}
+          </h2>
+          <span className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">{t('jobImport.count', { n: jobs.length })}</span>
+        </div>
+
+        <input
+          type="text"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder={t('jobImport.search')}
+          className="border p-2 rounded text-sm"
+        />
+
+        <div className="flex flex-col gap-2 overflow-y-auto">
+          {visible.length === 0 && (
+            <p className="text-sm text-slate-400 italic text-center py-4">{t('jobImport.empty')}</p>
+          )}
+          {visible.map((job, idx) => (
+            <button
+              key={`${job.jobId}-${idx}`}
+              type="button"
+              onClick={() => onPick(job)}
+              className="text-left p-3 border rounded-lg hover:bg-slate-50 transition"
+            >
+              <div>
+                {job.jobId && <span className="font-bold text-blue-600 mr-2">{job.jobId}</span>}
+                <span className="font-bold uppercase">{job.client}</span>
+              </div>
+              <div className="text-xs text-slate-500 uppercase">{job.address}</div>
+              {job.description && <div className="text-xs text-slate-400 truncate">{job.description}</div>}
+              {job.items.length > 0 && (
+                <div className="text-[10px] text-slate-400 mt-1">{t('jobImport.plannedItems', { n: job.items.length })}</div>
+              )}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex justify-end border-t pt-4">
+          <button type="button" onClick={onCancel} className="bg-slate-100 text-slate-700 px-6 py-2 rounded-lg font-bold text-sm">
+            {t('common.cancel')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from "react";
+import { HistoryFilter, SavedTimesheet } from "../types";
+import { buildPayrollReport, currentWeekRange, payrollCsvRows, PayrollRow, rowsForJob, wholeWeeks } from "../services/reportService";
+import { minutesToHoursString } from "../services/timeEngine";
+import { downloadCsv } from "../services/csv";
+import { t } from "../services/i18n";
+
+type Props = {
+  search: (filter: HistoryFilter) => Promise<SavedTimesheet[]>;
+  onBack: () => void;
+};
+
+const hours = (mins: number) => (mins ? minutesToHoursString(mins) : "-");
+
+export const PayrollReport: React.FC<Props> = ({ search, onBack }) => {
+  const [filter, setFilter] = useState<HistoryFilter>(currentWeekRange);
+  const [rows, setRows] = useState<PayrollRow[]>([]);
+  const [sheetCount, setSheetCount] = useState(0);
+  const range = wholeWeeks(filter);
+
+  useEffect(() => {
+    let cancelled = false;
+    const job = (filter.jobId || "").trim().toLowerCase();
+    search({ ...range, jobId: undefined })
+      .then(entries => {
+        if (cancelled) return;
+        setRows(rowsForJob(buildPayrollReport(entries), filter.jobId));
+        setSheetCount(entries.filter(e => (e.data.jobId || "").toLowerCase().includes(job)).length);
+      })
+      .catch(err => console.error("Report load error:", err));
+    return () => { cancelled = true; };
+  }, [filter]);
+
+  const set = (field: keyof HistoryFilter, value: string) => setFilter({ ...filter, [field]: value });
+
+  const exportCsv = () =>
+    downloadCsv(payrollCsvRows(rows), `AES-Payroll-${range.dateFrom || "inicio"}-${range.dateTo || "hoje"}.csv`);
+
+  return (
+    <div className="w-full max-w-[820px] mx-auto bg-white rounded-xl shadow-lg border border-slate-200 p-6 no-print flex flex-col gap-6">
+      <div className="flex justify-between items-center border-b pb-2">
+        <h2 className="text-xl font-bold flex items-center gap-2">
+          <i className="fas fa-chart-bar text-blue-600"></i> {t('payroll.title')}
+        </h2>
+        <span className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">{t('payroll.count', { n: sheetCount })}</span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-2 p-3 bg-slate-50 rounded-lg">
+        <div className="flex flex-col gap-0.5">
+          <label className="text-[9px] font-bold uppercase text-slate-500">{t('history.from')}</label>
+          <input type="date" value={filter.dateFrom || ""} onChange={e => set('dateFrom', e.target.value)} className="border p-1.5 rounded text-xs" />
+        </div>
+        <div className="flex flex-col gap-0.5">
+          <label className="text-[9px] font-bold uppercase text-slate-500">{t('history.to')}</label>
+          <input type="date" value={filter.dateTo || ""} onChange={e => set('dateTo', e.target.value)} className="border p-1.5 rounded text-xs" />
+        </div>
+        <div className="flex flex-col gap-0.5">
+          <label className="text-[9px] font-bold uppercase text-slate-500">{t('field.jobNo')}</label>
+          <input type="text" value={filter.jobId || ""} onChange={e => set('jobId', e.target.value)} className="border p-1.5 rounded text-xs" />
+        </div>
+      </div>
+
+      {(range.dateFrom !== filter.dateFrom || range.dateTo !== filter.dateTo) && (
+        <p className="text-[10px] text-slate-400 -mt-4">
+          {t('payroll.wholeWeeks', { from: range.dateFrom || "…", to: range.dateTo || "…" })}
+        </p>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-[11px] border-collapse">
+          <thead>
+            <tr className="text-[9px] uppercase text-slate-500 border-b">
+              <th className="text-left p-1.5">{t('payroll.worker')}</th>
+              <th className="text-left p-1.5">{t('payroll.week')}</th>
+              <th className="text-center p-1.5">{t('payroll.days')}</th>
+              <th className="text-left p-1.5">{t('payroll.jobs')}</th>
+              <th className="text-right p-1.5">{t('payroll.normal')}</th>
+              <th className="text-right p-1.5">{t('payroll.overtime')}</th>
+              <th className="text-right p-1.5">{t('payroll.travel')}</th>
+              <th className="text-right p-1.5">{t('payroll.total')}</th>
+              <th className="text-left p-1.5">{t('payroll.allowances')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={9} className="text-sm text-slate-400 italic text-center py-4">{t('payroll.empty')}</td>
+              </tr>
+            )}
+            {rows.map(r => (
+              <tr key={`${r.worker}-${r.weekStart}`} className="border-b hover:bg-slate-50">
+                <td className="p-1.5 font-bold uppercase">{r.worker}</td>
+                <td className="p-1.5">{r.weekStart}</td>
+                <td className="p-1.5 text-center">{r.days}</td>
+                <td className="p-1.5 text-slate-500">{r.jobs.join(", ")}</td>
+                <td className="p-1.5 text-right">{hours(r.normalMinutes)}</td>
+                <td className={`p-1.5 text-right ${r.overtimeMinutes ? "text-orange-600 font-bold" : ""}`}>{hours(r.overtimeMinutes)}</td>
+                <td className="p-1.5 text-right">{hours(r.travelMinutes)}</td>
+                <td className="p-1.5 text-right font-bold">{hours(r.totalMinutes)}</td>
+                <td className="p-1.5 text-slate-500" title={r.allowances.join("; ")}>
+                  {[r.allowanceTotal ? r.allowanceTotal.toFixed(2) : "", ...r.unpricedAllowances].filter(Boolean).join("; ")}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-end gap-3 border-t pt-4">
+        <button type="button" onClick={onBack} className="bg-slate-100 text-slate-700 px-6 py-2 rounded-lg font-bold text-sm">
+          {t('common.back')}
+        </button>
+        <button
+          type="button"
+          onClick={exportCsv}
+          disabled={rows.length === 0}
+          className="bg-green-600 text-white px-8 py-2 rounded-lg font-bold text-sm disabled:opacity-50"
+        >
+          <i className="fas fa-file-csv mr-2"></i> {t('payroll.exportCsv')}
+        </button>
+      </div>
+    </div>
+  );
+};
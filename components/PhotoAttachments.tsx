@@ -0,0 +1,79 @@
+import React from "react";
+import { PhotoAttachment } from "../types";
+import { t } from "../services/i18n";
+
+type Props = {
+  photos: PhotoAttachment[];
+  printPhotos: boolean;
+  onAdd: (files: File[]) => void;
+  onChange: (photos: PhotoAttachment[]) => void;
+  onPrintPhotosChange: (value: boolean) => void;
+};
+
+export const PhotoAttachments: React.FC<Props> = ({ photos, printPhotos, onAdd, onChange, onPrintPhotosChange }) => {
+  const pick = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (files.length) onAdd(files);
+  };
+
+  const setCaption = (id: string, caption: string) =>
+    onChange(photos.map(p => (p.id === id ? { ...p, caption } : p)));
+
+  return (
+    <div className="border-t pt-4">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-3">
+        <h3 className="text-sm font-bold text-slate-700 flex items-center gap-2 uppercase tracking-wide">
+          <i className="fas fa-camera text-slate-500"></i> {t('photos.title')}
+        </h3>
+        <div className="flex gap-2">
+          {/* capture abre direto a câmera traseira no celular */}
+          <label className="cursor-pointer bg-blue-600 text-white px-3 py-1.5 rounded-lg text-[11px] font-bold">
+            <i className="fas fa-camera mr-1"></i> {t('photos.takePhoto')}
+            <input type="file" accept="image/*" capture="environment" className="hidden" onChange={pick} />
+          </label>
+          <label className="cursor-pointer bg-slate-100 text-slate-700 px-3 py-1.5 rounded-lg text-[11px] font-bold">
+            <i className="fas fa-images mr-1"></i> {t('photos.upload')}
+            <input type="file" accept="image/*" multiple className="hidden" onChange={pick} />
+          </label>
+        </div>
+      </div>
+
+      {photos.length === 0 ? (
+        <p className="text-xs text-slate-400 italic">{t('photos.empty')}</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3">
+          {photos.map(photo => (
+            <div key={photo.id} className="border rounded-lg overflow-hidden flex flex-col">
+              <div className="relative bg-slate-100">
+                <img src={photo.dataUrl} alt={photo.caption} className="w-full h-36 object-cover" />
+                <button
+                  type="button"
+                  onClick={() => onChange(photos.filter(p => p.id !== photo.id))}
+                  className="absolute top-1 right-1 bg-white/90 text-red-500 hover:text-red-700 rounded-full w-7 h-7"
+                >
+                  <i className="fas fa-trash-alt text-xs"></i>
+                </button>
+              </div>
+              <div className="p-2 flex flex-col gap-1">
+                <span className="text-[9px] text-slate-400 font-bold">{new Date(photo.takenAt).toLocaleString()}</span>
+                <input
+                  type="text"
+                  value={photo.caption}
+                  onChange={e => setCaption(photo.id, e.target.value)}
+                  placeholder={t('photos.captionPlaceholder')}
+                  className="border p-1.5 rounded text-xs"
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <label className="flex items-center gap-2 mt-3 cursor-pointer">
+        <input type="checkbox" checked={printPhotos} onChange={e => onPrintPhotosChange(e.target.checked)} />
+        <span className="text-[10px] font-bold uppercase text-slate-500">{t('photos.includeInPdf')}</span>
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,194 @@
+import React, { useState } from "react";
+import { SupervisorProfile } from "../types";
+import { createProfile } from "../services/profileService";
+import { SignaturePad } from "./SignaturePad";
+import { downloadBlob } from "../services/csv";
+import { signatureToSvg } from "../services/signatureStrokes";
+import { t } from "../services/i18n";
+
+type Props = {
+  profiles: SupervisorProfile[];
+  activeId: string | null;
+  onSave: (profiles: SupervisorProfile[], activeId: string) => void;
+  onCancel?: () => void; // ✅ sem cancelar no primeiro acesso
+};
+
+export const ProfileSettings: React.FC<Props> = ({ profiles, activeId, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<SupervisorProfile[]>(profiles.length ? profiles : [createProfile()]);
+  const [selectedId, setSelectedId] = useState<string>(
+    draft.find(p => p.id === activeId)?.id ?? draft[0].id
+  );
+  const [signing, setSigning] = useState(false);
+
+  const selected = draft.find(p => p.id === selectedId) ?? draft[0];
+
+  const update = (patch: Partial<SupervisorProfile>) => {
+    setDraft(prev => prev.map(p => (p.id === selected.id ? { ...p, ...patch } : p)));
+  };
+
+  const add = () => {
+    const profile = createProfile();
+    setDraft(prev => [...prev, profile]);
+    setSelectedId(profile.id);
+    setSigning(false);
+  };
+
+  const remove = () => {
+    const rest = draft.filter(p => p.id !== selected.id);
+    if (!rest.length) return;
+    setDraft(rest);
+    setSelectedId(rest[0].id);
+    setSigning(false);
+  };
+
+  // ✅ assinatura salva em PNG ou SVG (vetor, nítido em qualquer tamanho)
+  const downloadSignature = (format: 'png' | 'svg') => {
+    const name = `assinatura-${selected.name.trim().toLowerCase().replace(/\s+/g, "-") || "supervisor"}.${format}`;
+    if (format === 'svg' && selected.signatureVector) {
+      downloadBlob(new Blob([signatureToSvg(selected.signatureVector)], { type: "image/svg+xml" }), name);
+    } else if (format === 'png' && selected.signature) {
+      const link = document.createElement("a");
+      link.download = name;
+      link.href = selected.signature;
+      link.click();
+    }
+  };
+
+  const cleaned = draft
+    .map(p => ({ ...p, name: p.name.trim(), crew: p.crew.map(c => c.trim()).filter(Boolean) }))
+    .filter(p => p.name);
+
+  // ✅ salva e deixa o perfil selecionado como ativo
+  const save = () => {
+    if (!selected.name.trim()) return;
+    onSave(cleaned, selected.id);
+  };
+
+  return (
+    <div className="w-full max-w-[820px] mx-auto bg-white rounded-xl shadow-lg border border-slate-200 p-6 no-print flex flex-col gap-6">
+      <div className="flex justify-between items-center border-b pb-2">
+        <h2 className="text-xl font-bold flex items-center gap-2">
+          <i className="fas fa-user-tie text-blue-600"></i> {t('profile.title')}
+        </h2>
+        {!profiles.length && (
+          <span className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">{t('profile.firstAccess')}</span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {draft.map(p => (
+          <button
+            key={p.id}
+            type="button"
+            onClick={() => { setSelectedId(p.id); setSigning(false); }}
+            className={`px-3 py-1.5 rounded-lg text-xs font-bold uppercase border ${
+              p.id === selected.id ? "bg-blue-600 text-white border-blue-600" : "bg-white text-slate-600 border-slate-200 hover:bg-slate-50"
+            }`}
+          >
+            {p.name || t('profile.newProfile')}
+            {p.id === activeId && <i className="fas fa-check ml-1"></i>}
+          </button>
+        ))}
+        <button type="button" onClick={add} className="px-3 py-1.5 text-[11px] font-bold text-blue-600 hover:text-blue-800">
+          <i className="fas fa-plus mr-1"></i> {t('profile.addProfile')}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        <div className="md:col-span-4 flex flex-col gap-0.5">
+          <label className="text-[9px] font-bold uppercase text-slate-500">{t('field.supervisorName')}</label>
+          <input
+            type="text"
+            value={selected.name}
+            onChange={e => update({ name: e.target.value })}
+            className={`border p-2 rounded text-sm font-bold uppercase ${selected.name.trim() ? "" : "border-red-500 bg-red-50"}`}
+          />
+        </div>
+        <div className="flex flex-col gap-0.5">
+          <label className="text-[9px] font-bold uppercase text-slate-500">{t('field.start')}</label>
+          <input type="text" value={selected.startTime} onChange={e => update({ startTime: e.target.value })} className="border p-2 rounded text-sm text-center" />
+        </div>
+        <div className="flex flex-col gap-0.5">
+          <label className="text-[9px] font-bold uppercase text-slate-500">{t('field.finish')}</label>
+          <input type="text" value={selected.finishTime} onChange={e => update({ finishTime: e.target.value })} className="border p-2 rounded text-sm text-center" />
+        </div>
+        <div className="flex flex-col gap-0.5">
+          <label className="text-[9px] font-bold uppercase text-slate-500">{t('field.break')}</label>
+          <input type="text" value={selected.breakTime} onChange={e => update({ breakTime: e.target.value })} className="border p-2 rounded text-sm text-center" />
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-0.5">
+        <label className="text-[9px] font-bold uppercase text-slate-500">{t('profile.crew')}</label>
+        <textarea
+          value={selected.crew.join("\n")}
+          onChange={e => update({ crew: e.target.value.split("\n") })}
+          className="border p-2 rounded text-sm uppercase min-h-[100px] resize-none"
+        />
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <label className="text-[9px] font-bold uppercase text-slate-500">{t('profile.savedSignature')}</label>
+        {signing ? (
+          <div className="h-40">
+            <SignaturePad
+              id={`profile-${selected.id}`}
+              label={t('signing.supervisor')}
+              onSave={(signature, signatureVector) => { update({ signature, signatureVector }); setSigning(false); }}
+              onClear={() => update({ signature: null, signatureVector: null })}
+            />
+          </div>
+        ) : (
+          <div className="flex items-center gap-3">
+            <div className="h-16 w-48 border rounded-lg bg-slate-50 flex items-center justify-center">
+              {selected.signature ? (
+                <img src={selected.signature} className="max-h-14 object-contain" />
+              ) : (
+                <span className="text-[10px] text-slate-300 italic">{t('profile.noSignature')}</span>
+              )}
+            </div>
+            <button type="button" onClick={() => setSigning(true)} className="text-[11px] font-bold text-blue-600 hover:text-blue-800">
+              <i className="fas fa-pen mr-1"></i> {selected.signature ? t('profile.redoSignature') : t('profile.sign')}
+            </button>
+            {selected.signature && (
+              <button type="button" onClick={() => downloadSignature('png')} className="text-[11px] font-bold text-slate-500 hover:text-slate-700">
+                <i className="fas fa-download mr-1"></i> PNG
+              </button>
+            )}
+            {selected.signatureVector && (
+              <button type="button" onClick={() => downloadSignature('svg')} className="text-[11px] font-bold text-slate-500 hover:text-slate-700">
+                <i className="fas fa-download mr-1"></i> SVG
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-between gap-3 border-t pt-4">
+        <button
+          type="button"
+          onClick={remove}
+          disabled={draft.length < 2}
+          className="text-red-400 hover:text-red-600 text-sm font-bold disabled:opacity-30"
+        >
+          <i className="fas fa-trash-alt mr-1"></i> {t('profile.remove')}
+        </button>
+        <div className="flex gap-3">
+          {onCancel && (
+            <button type="button" onClick={onCancel} className="bg-slate-100 text-slate-700 px-6 py-2 rounded-lg font-bold text-sm">
+              {t('common.back')}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={save}
+            disabled={!selected.name.trim()}
+            className="bg-blue-600 text-white px-8 py-2 rounded-lg font-bold text-sm disabled:opacity-50"
+          >
+            {t('profile.saveAndUse')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
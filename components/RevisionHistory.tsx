@@ -0,0 +1,108 @@
+import React, { useState } from "react";
+import { SavedTimesheet } from "../types";
+import { DiffSection, diffRevisions } from "../services/revisionDiff";
+import { statusOf } from "../services/statusService";
+import { statusLabel, t } from "../services/i18n";
+
+type Props = {
+  revisions: SavedTimesheet[];
+  onRestore: (revision: SavedTimesheet) => void;
+  onClose: () => void;
+};
+
+const SECTIONS: DiffSection[] = ['header', 'labour', 'items', 'waste', 'signatures'];
+
+const revisionOf = (entry: SavedTimesheet) => entry.revision ?? 1;
+
+// ✅ revisions em ordem crescente; a última é a que está no histórico
+export const RevisionHistory: React.FC<Props> = ({ revisions, onRestore, onClose }) => {
+  const latest = revisions[revisions.length - 1];
+  const [fromRev, setFromRev] = useState(revisions.length > 1 ? revisionOf(revisions[revisions.length - 2]) : revisionOf(latest));
+  const [toRev, setToRev] = useState(revisionOf(latest));
+
+  const find = (rev: number) => revisions.find(r => revisionOf(r) === rev) ?? latest;
+  const changes = diffRevisions(find(fromRev), find(toRev));
+
+  const picker = (value: number, onChange: (rev: number) => void) => (
+    <select
+      value={value}
+      onChange={e => onChange(Number(e.target.value))}
+      className="flex-1 p-2 border rounded text-sm"
+    >
+      {revisions.map(r => (
+        <option key={revisionOf(r)} value={revisionOf(r)}>{t('edit.revision', { n: revisionOf(r) })}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[150] bg-slate-900/90 flex items-center justify-center p-4 no-print">
+      <div className="bg-white rounded-2xl p-6 w-full max-w-2xl max-h-[90vh] shadow-2xl flex flex-col gap-4">
+        <h2 className="text-xl font-bold flex items-center gap-2">
+          <i className="fas fa-code-branch text-blue-600"></i> {t('revisions.title')}
+        </h2>
+
+        <div className="flex flex-col gap-2">
+          {[...revisions].reverse().map(r => (
+            <div key={revisionOf(r)} className="flex items-center justify-between p-2 border border-slate-200 rounded-lg text-sm">
+              <div>
+                <span className="font-bold text-blue-600 mr-2">{t('edit.revision', { n: revisionOf(r) })}</span>
+                <span className="text-[10px] font-bold uppercase text-slate-500 mr-2">{statusLabel(statusOf(r))}</span>
+                <span className="text-xs text-slate-400">{new Date(r.timestamp).toLocaleString()}</span>
+              </div>
+              {r === latest ? (
+                <span className="text-[9px] font-bold uppercase text-slate-400 px-2">{t('revisions.current')}</span>
+              ) : (
+                <button type="button" onClick={() => onRestore(r)} className="text-blue-600 hover:text-blue-800 font-bold text-xs px-2">
+                  <i className="fas fa-undo mr-1"></i> {t('revisions.restore')}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {revisions.length > 1 && (
+          <>
+            <div className="flex items-center gap-2">
+              <span className="text-[9px] font-bold uppercase text-slate-500">{t('revisions.compare')}</span>
+              {picker(fromRev, setFromRev)}
+              <i className="fas fa-arrow-right text-slate-400"></i>
+              {picker(toRev, setToRev)}
+            </div>
+
+            <div className="overflow-y-auto border border-slate-200 rounded-lg">
+              {changes.length === 0 ? (
+                <p className="text-sm text-slate-400 italic text-center py-4">{t('revisions.noChanges')}</p>
+              ) : (
+                <table className="w-full text-xs">
+                  <tbody>
+                    {SECTIONS.filter(section => changes.some(c => c.section === section)).map(section => (
+                      <React.Fragment key={section}>
+                        <tr className="bg-slate-50">
+                          <td colSpan={3} className="p-2 text-[9px] font-bold uppercase text-slate-500">{t(`revisions.section.${section}` as const)}</td>
+                        </tr>
+                        {changes.filter(c => c.section === section).map((change, idx) => (
+                          <tr key={idx} className="border-t border-slate-100 align-top">
+                            <td className="p-2 font-bold text-slate-600 w-1/3">{change.field}</td>
+                            <td className="p-2 text-red-600 line-through break-words">{change.before || "—"}</td>
+                            <td className="p-2 text-green-700 break-words">{change.after || "—"}</td>
+                          </tr>
+                        ))}
+                      </React.Fragment>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end border-t pt-4">
+          <button type="button" onClick={onClose} className="bg-slate-100 text-slate-700 px-6 py-2 rounded-lg font-bold text-sm">
+            {t('common.back')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
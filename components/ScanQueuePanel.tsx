@@ -0,0 +1,64 @@
+import React from "react";
+import { QueuedScan } from "../types";
+import { MessageKey, t } from "../services/i18n";
+
+type Props = {
+  scans: QueuedScan[];
+  onOpen: (scan: QueuedScan) => void;
+  onRetry: () => void;
+  onDiscard: (id: string) => void;
+};
+
+const STATUS_LABEL: Record<QueuedScan['status'], { icon: string; text: MessageKey; color: string }> = {
+  pending: { icon: "fa-clock", text: 'scanQueue.pending', color: "text-slate-500" },
+  failed: { icon: "fa-exclamation-triangle", text: 'scanQueue.failed', color: "text-red-600" },
+  done: { icon: "fa-check-circle", text: 'scanQueue.done', color: "text-green-600" },
+};
+
+export const ScanQueuePanel: React.FC<Props> = ({ scans, onOpen, onRetry, onDiscard }) => (
+  <div className="w-full max-w-[820px] mx-auto bg-white rounded-xl shadow-lg p-6 mb-6 no-print">
+    <div className="flex items-center justify-between mb-4">
+      <h2 className="text-lg font-bold flex items-center gap-2">
+        <i className="fas fa-inbox text-blue-500"></i> {t('scanQueue.title')}
+      </h2>
+      {scans.some(s => s.status !== 'done') && (
+        <button type="button" onClick={onRetry} className="text-[11px] font-bold text-blue-600 hover:text-blue-800">
+          <i className="fas fa-sync-alt mr-1"></i> {t('scanQueue.processNow')}
+        </button>
+      )}
+    </div>
+
+    <div className="grid grid-cols-1 gap-3">
+      {scans.map(scan => {
+        const status = STATUS_LABEL[scan.status];
+        return (
+          <div key={scan.id} className="flex items-center justify-between p-3 border rounded-lg">
+            <div className="flex-1">
+              <span className={`text-xs font-bold uppercase ${status.color}`}>
+                <i className={`fas ${status.icon} mr-1`}></i> {t(status.text)}
+              </span>
+              <span className="ml-3 text-xs text-slate-400">
+                {new Date(scan.createdAt).toLocaleString()} · {t('scanQueue.files', { n: scan.images.length })}
+              </span>
+              {scan.status === 'done' && scan.result && (
+                <div className="text-sm">
+                  {scan.result.jobId && <span className="font-bold text-blue-600 mr-2">{scan.result.jobId}</span>}
+                  {scan.result.client}
+                </div>
+              )}
+              {scan.error && <div className="text-[11px] text-red-500 truncate">{scan.error}</div>}
+            </div>
+            {scan.status === 'done' && (
+              <button type="button" onClick={() => onOpen(scan)} className="text-blue-600 hover:text-blue-800 font-bold text-xs px-2">
+                {t('scanQueue.open')}
+              </button>
+            )}
+            <button type="button" onClick={() => onDiscard(scan.id)} className="text-red-400 hover:text-red-600 p-2">
+              <i className="fas fa-trash-alt"></i>
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
@@ -0,0 +1,103 @@
+import React, { useState } from "react";
+import { ShareDraft } from "../services/shareService";
+import { t } from "../services/i18n";
+
+type Format = 'jpg' | 'pdf';
+
+type Props = {
+  prepared: { file: File; draft: ShareDraft } | null;
+  shareSupported: boolean;
+  onFormatChange: (format: Format) => void;
+  onSend: (via: 'share' | 'eml' | 'mailto') => void;
+  onClose: () => void;
+};
+
+export const SendDialog: React.FC<Props> = ({ prepared, shareSupported, onFormatChange, onSend, onClose }) => {
+  const [format, setFormat] = useState<Format>('pdf');
+
+  const pick = (next: Format) => {
+    if (next === format) return;
+    setFormat(next);
+    onFormatChange(next);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[150] bg-slate-900/90 flex items-center justify-center p-4 no-print">
+      <div className="bg-white rounded-2xl p-6 w-full max-w-lg shadow-2xl flex flex-col gap-4">
+        <h2 className="text-xl font-bold flex items-center gap-2">
+          <i className="fas fa-paper-plane text-blue-600"></i> {t('send.title')}
+        </h2>
+
+        <div className="flex gap-2">
+          {(['pdf', 'jpg'] as const).map(f => (
+            <button
+              key={f}
+              type="button"
+              onClick={() => pick(f)}
+              disabled={!prepared}
+              className={`flex-1 py-2 rounded-lg text-xs font-bold uppercase border disabled:opacity-60 ${
+                f === format ? "bg-blue-600 text-white border-blue-600" : "bg-white text-slate-600 border-slate-200 hover:bg-slate-50"
+              }`}
+            >
+              <i className={`fas ${f === 'pdf' ? 'fa-file-pdf' : 'fa-file-image'} mr-1`}></i> {f}
+            </button>
+          ))}
+        </div>
+
+        {prepared ? (
+          <div className="flex flex-col gap-1 p-3 bg-slate-50 rounded-lg text-xs">
+            <span><b className="text-slate-500 uppercase text-[9px] mr-1">{t('send.to')}</b>{prepared.draft.to.join(", ")}</span>
+            <span><b className="text-slate-500 uppercase text-[9px] mr-1">{t('send.subject')}</b>{prepared.draft.subject}</span>
+            <span><b className="text-slate-500 uppercase text-[9px] mr-1">{t('send.attachment')}</b>{prepared.file.name}</span>
+          </div>
+        ) : (
+          <p className="text-sm text-slate-400 italic text-center py-3">
+            <i className="fas fa-spinner fa-spin mr-2"></i> {t('send.generating')}
+          </p>
+        )}
+
+        <div className="flex flex-col gap-2">
+          {shareSupported && (
+            <button
+              type="button"
+              onClick={() => onSend('share')}
+              disabled={!prepared}
+              className="bg-green-600 text-white py-3 rounded-lg font-bold text-sm disabled:opacity-50"
+            >
+              <i className="fas fa-share-alt mr-2"></i> {t('send.share')}
+            </button>
+          )}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => onSend('eml')}
+              disabled={!prepared}
+              className="flex-1 bg-slate-100 text-slate-700 py-2 rounded-lg font-bold text-xs disabled:opacity-50"
+            >
+              <i className="fas fa-envelope mr-1"></i> {t('send.eml')}
+            </button>
+            <button
+              type="button"
+              onClick={() => onSend('mailto')}
+              disabled={!prepared}
+              className="flex-1 bg-slate-100 text-slate-700 py-2 rounded-lg font-bold text-xs disabled:opacity-50"
+            >
+              <i className="fas fa-at mr-1"></i> {t('send.mailto')}
+            </button>
+          </div>
+          {!shareSupported && (
+            <p className="text-[10px] text-slate-400">
+              {t('send.noFileShare')}
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end border-t pt-4">
+          <button type="button" onClick={onClose} className="bg-slate-100 text-slate-700 px-6 py-2 rounded-lg font-bold text-sm">
+            {t('common.cancel')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
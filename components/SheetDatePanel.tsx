@@ -0,0 +1,41 @@
+import React, { useState } from "react";
+import { SHEET_DATE_LOCALES, SHEET_DATE_PATTERNS, SheetDateSettings, formatSheetDate, loadSheetDateSettings, saveSheetDateSettings } from "../services/dateFormat";
+import { t } from "../services/i18n";
+
+// ✅ formato da data impressa; vale para as próximas folhas (as salvas não mudam)
+export const SheetDatePanel: React.FC = () => {
+  const [settings, setSettings] = useState<SheetDateSettings>(loadSheetDateSettings);
+
+  const update = (patch: Partial<SheetDateSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveSheetDateSettings(next);
+  };
+
+  return (
+    <div className="w-full max-w-[820px] mx-auto bg-white rounded-xl shadow-lg border border-slate-200 p-6 mb-6 no-print flex flex-col gap-3">
+      <h2 className="text-lg font-bold flex items-center gap-2">
+        <i className="fas fa-calendar-alt text-blue-600"></i> {t('sheetDate.title')}
+      </h2>
+      <p className="text-xs text-slate-400">{t('sheetDate.hint')}</p>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3 items-end">
+        <div className="flex flex-col gap-0.5">
+          <label className="text-[9px] font-bold uppercase text-slate-500">{t('sheetDate.locale')}</label>
+          <select value={settings.locale} onChange={e => update({ locale: e.target.value })} className="border p-2 rounded text-sm bg-white">
+            {SHEET_DATE_LOCALES.map(locale => <option key={locale} value={locale}>{locale}</option>)}
+          </select>
+        </div>
+        <div className="flex flex-col gap-0.5">
+          <label className="text-[9px] font-bold uppercase text-slate-500">{t('sheetDate.pattern')}</label>
+          <select value={settings.pattern} onChange={e => update({ pattern: e.target.value })} className="border p-2 rounded text-sm bg-white">
+            {SHEET_DATE_PATTERNS.map(pattern => <option key={pattern} value={pattern}>{pattern}</option>)}
+          </select>
+        </div>
+        <span className="col-span-2 md:col-span-1 text-sm font-bold text-slate-700 py-2">
+          {t('sheetDate.preview', { date: formatSheetDate(new Date(), settings) })}
+        </span>
+      </div>
+    </div>
+  );
+};
@@ -1,9 +1,12 @@
 import React, { useEffect, useRef, useState } from "react";
+import { SignaturePoint, SignatureVector } from "../types";
+import { drawSegments, drawStrokes, strokeSegments } from "../services/signatureStrokes";
+import { t } from "../services/i18n";
 
 type Props = {
   id: string; // ✅ precisa ser unico por instancia (ex: "client", "supervisor")
   label: string;
-  onSave: (dataUrl: string) => void;
+  onSave: (dataUrl: string, vector: SignatureVector) => void;
   onClear: () => void;
 };
 
@@ -11,8 +14,15 @@ export const SignaturePad: React.FC<Props> = ({ id, label, onSave, onClear }) =>
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
 
+  // ✅ traços guardados como pontos: redesenha no resize, desfaz, exporta SVG
+  const strokesRef = useRef<SignaturePoint[][]>([]);
   const drawingRef = useRef(false);
-  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  // trechos do traço atual já no canvas; o último só fica fixo quando chega o próximo ponto
+  const settledRef = useRef(0);
+  const startedAtRef = useRef(0);
+  // tamanho do pad no 1º traço: os pontos ficam nessa escala
+  const padSizeRef = useRef({ width: 0, height: 0 });
+  const scaleRef = useRef(1);
 
   const [hasInk, setHasInk] = useState(false);
 
@@ -28,6 +38,15 @@ export const SignaturePad: React.FC<Props> = ({ id, label, onSave, onClear }) =>
     return ctx;
   };
 
+  // ✅ redesenho completo só no resize e no desfazer; desenhando, só os trechos novos
+  const redraw = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    drawStrokes(ctx, strokesRef.current, scaleRef.current);
+  };
+
   const resizeCanvasToContainer = () => {
     const canvas = canvasRef.current;
     const container = containerRef.current;
@@ -49,11 +68,15 @@ export const SignaturePad: React.FC<Props> = ({ id, label, onSave, onClear }) =>
 
     ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
 
-    // estilo da caneta
-    ctx.lineWidth = 2;
-    ctx.lineCap = "round";
-    ctx.lineJoin = "round";
-    ctx.strokeStyle = "#111827"; // slate-900
+    // pad vazio adota o tamanho novo; com tinta, a assinatura acompanha o resize
+    const pad = padSizeRef.current;
+    if (!strokesRef.current.length || !pad.width) {
+      padSizeRef.current = { width: rect.width, height: rect.height };
+      scaleRef.current = 1;
+    } else {
+      scaleRef.current = Math.min(rect.width / pad.width, rect.height / pad.height);
+    }
+    redraw();
   };
 
   useEffect(() => {
@@ -63,55 +86,71 @@ export const SignaturePad: React.FC<Props> = ({ id, label, onSave, onClear }) =>
     return () => window.removeEventListener("resize", onResize);
   }, []);
 
-  const pointFromEvent = (e: PointerEvent | React.PointerEvent) => {
+  const pointFromEvent = (e: PointerEvent | React.PointerEvent): SignaturePoint => {
     const canvas = getCanvas();
     const rect = canvas.getBoundingClientRect();
-    const x = (e as any).clientX - rect.left;
-    const y = (e as any).clientY - rect.top;
-    return { x, y };
+    const scale = scaleRef.current;
+    return {
+      x: ((e as any).clientX - rect.left) / scale,
+      y: ((e as any).clientY - rect.top) / scale,
+      // mouse/dedo sem sensor reportam 0 ou 0.5
+      pressure: (e as any).pressure || 0.5,
+      t: Math.round(performance.now() - startedAtRef.current),
+    };
   };
 
   const start = (e: React.PointerEvent<HTMLCanvasElement>) => {
     const canvas = getCanvas();
     canvas.setPointerCapture(e.pointerId);
 
+    if (!strokesRef.current.length) startedAtRef.current = performance.now();
     drawingRef.current = true;
-    lastPointRef.current = pointFromEvent(e);
+    settledRef.current = 0;
+    strokesRef.current = [...strokesRef.current, [pointFromEvent(e)]];
+    setHasInk(true);
   };
 
   const move = (e: React.PointerEvent<HTMLCanvasElement>) => {
     if (!drawingRef.current) return;
-    const ctx = getCtx();
-
-    const p = pointFromEvent(e);
-    const last = lastPointRef.current;
-    if (!last) {
-      lastPointRef.current = p;
-      return;
+    const stroke = strokesRef.current[strokesRef.current.length - 1];
+    if (!stroke) return;
+
+    // eventos agrupados pelo navegador entre dois frames: traço mais fiel
+    const events: PointerEvent[] = (e.nativeEvent as any).getCoalescedEvents?.() || [];
+    (events.length ? events : [e]).forEach(ev => stroke.push(pointFromEvent(ev)));
+
+    const segments = strokeSegments(stroke);
+    const settled = segments.length - 1;
+    if (settled > settledRef.current) {
+      drawSegments(getCtx(), segments.slice(settledRef.current, settled), scaleRef.current);
+      settledRef.current = settled;
     }
-
-    ctx.beginPath();
-    ctx.moveTo(last.x, last.y);
-    ctx.lineTo(p.x, p.y);
-    ctx.stroke();
-
-    lastPointRef.current = p;
-    setHasInk(true);
   };
 
   const end = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
     drawingRef.current = false;
-    lastPointRef.current = null;
+    // fecha o traço: o trecho final (ou o ponto, num toque só)
+    const stroke = strokesRef.current[strokesRef.current.length - 1];
+    if (stroke) drawSegments(getCtx(), strokeSegments(stroke).slice(settledRef.current), scaleRef.current);
     try {
       const canvas = getCanvas();
       canvas.releasePointerCapture(e.pointerId);
     } catch {}
   };
 
+  const undo = () => {
+    strokesRef.current = strokesRef.current.slice(0, -1);
+    redraw();
+    setHasInk(strokesRef.current.length > 0);
+  };
+
   const clear = () => {
     const canvas = getCanvas();
     const ctx = getCtx();
     ctx.clearRect(0, 0, canvas.width, canvas.height);
+    strokesRef.current = [];
+    resizeCanvasToContainer();
     setHasInk(false);
     onClear();
   };
@@ -132,7 +171,7 @@ export const SignaturePad: React.FC<Props> = ({ id, label, onSave, onClear }) =>
     octx.drawImage(canvas, 0, 0);
 
     const dataUrl = out.toDataURL("image/png");
-    onSave(dataUrl);
+    onSave(dataUrl, { ...padSizeRef.current, strokes: strokesRef.current });
   };
 
   return (
@@ -158,12 +197,20 @@ export const SignaturePad: React.FC<Props> = ({ id, label, onSave, onClear }) =>
       </div>
 
       <div className="flex gap-2 justify-end">
+        <button
+          type="button"
+          onClick={undo}
+          disabled={!hasInk}
+          className="px-3 py-2 rounded-lg text-sm font-bold border border-slate-200 bg-white hover:bg-slate-50 disabled:opacity-40"
+        >
+          <i className="fas fa-undo mr-1"></i> {t('common.undo')}
+        </button>
         <button
           type="button"
           onClick={clear}
           className="px-3 py-2 rounded-lg text-sm font-bold border border-slate-200 bg-white hover:bg-slate-50"
         >
-          Clear
+          {t('common.clear')}
         </button>
         <button
           type="button"
@@ -173,7 +220,7 @@ export const SignaturePad: React.FC<Props> = ({ id, label, onSave, onClear }) =>
             hasInk ? "bg-blue-600 hover:bg-blue-700" : "bg-blue-300 cursor-not-allowed"
           }`}
         >
-          Save
+          {t('common.save')}
         </button>
       </div>
     </div>
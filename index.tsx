@@ -1,7 +1,12 @@
-
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import './index.css';
+import '@fortawesome/fontawesome-free/css/all.min.css';
+import '@fontsource/inter/400.css';
+import '@fontsource/inter/500.css';
+import '@fontsource/inter/700.css';
+import '@fontsource/inter/900.css';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -14,3 +19,10 @@ root.render(
     <App />
   </React.StrictMode>
 );
+
+// ✅ PWA: só no build (no dev o SW atrapalharia o HMR)
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => console.error("Service worker error:", err));
+  });
+}
@@ -0,0 +1,51 @@
+// ✅ Service worker: app shell em cache para abrir sem sinal.
+// /api/* nunca é cacheado (scan offline vai para a fila no IndexedDB).
+// sw-assets.js é gerado no build com os JS/CSS/fontes (inclusive os carregados sob demanda)
+importScripts('/sw-assets.js');
+
+const CACHE = `aes-timesheet-${self.BUILD_VERSION}`;
+const SHELL = [
+  '/', '/index.html', '/manifest.webmanifest', '/icons/icon-192.png', '/icons/icon-512.png', '/assets/AES-Logo (1).png',
+  ...self.BUILD_ASSETS,
+];
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(CACHE).then(cache => cache.addAll(SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const putInCache = (request, response) => {
+  if (response.ok) {
+    const copy = response.clone();
+    caches.open(CACHE).then(cache => cache.put(request, copy));
+  }
+  return response;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  // navegação: rede primeiro (pega deploy novo), cache quando offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then(response => putInCache('/index.html', response))
+        .catch(() => caches.match('/index.html'))
+    );
+    return;
+  }
+
+  // JS/CSS/fontes com hash no nome: cache primeiro
+  event.respondWith(
+    caches.match(request).then(cached => cached || fetch(request).then(response => putInCache(request, response)))
+  );
+});
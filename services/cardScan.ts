@@ -0,0 +1,163 @@
+import { downscaleImage, readAsDataUrl } from "./imageUtils";
+
+// ✅ maior lado enviado ao /api/extract: ainda legível para a IA, payload ~5x menor
+export const SCAN_MAX_SIDE = 2000;
+const SCAN_QUALITY = 0.85;
+// arquivo pequeno já vai como está (recomprimir só perde nitidez)
+const SCAN_KEEP_BYTES = 400 * 1024;
+
+// moldura na tela, em frações do quadro do vídeo
+export type GuideRect = { x: number; y: number; width: number; height: number };
+export const CARD_GUIDE: GuideRect = { x: 0.08, y: 0.06, width: 0.84, height: 0.88 };
+
+const ANALYSIS_SIDE = 400;
+const MAX_SKEW_DEG = 12;
+const SKEW_STEP_DEG = 0.5;
+
+/** Lê o arquivo escolhido e reduz imagens grandes antes do envio (PDF vai inteiro). */
+export const prepareScanFile = async (file: File): Promise<string> => {
+  const dataUrl = await readAsDataUrl(file);
+  if (!file.type.startsWith("image/") || file.size <= SCAN_KEEP_BYTES) return dataUrl;
+  return downscaleImage(dataUrl, SCAN_MAX_SIDE, SCAN_QUALITY);
+};
+
+const toGray = ({ data, width, height }: ImageData) => {
+  const gray = new Uint8Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+  }
+  return gray;
+};
+
+// limiar de Otsu: separa papel (claro) de texto/fundo (escuro)
+const otsuThreshold = (gray: Uint8Array) => {
+  const hist = new Array(256).fill(0);
+  gray.forEach(v => hist[v]++);
+  const total = gray.length;
+  const sumAll = hist.reduce((sum, count, v) => sum + v * count, 0);
+
+  let sumBack = 0;
+  let weightBack = 0;
+  let best = 0;
+  let threshold = 128;
+  for (let t = 0; t < 256; t++) {
+    weightBack += hist[t];
+    if (!weightBack) continue;
+    const weightFore = total - weightBack;
+    if (!weightFore) break;
+    sumBack += t * hist[t];
+    const meanBack = sumBack / weightBack;
+    const meanFore = (sumAll - sumBack) / weightFore;
+    const between = weightBack * weightFore * (meanBack - meanFore) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = t;
+    }
+  }
+  return threshold;
+};
+
+/**
+ * Inclinação do cartão em graus: testa ângulos e fica com o que deixa as
+ * linhas de texto mais "retas" (perfil de projeção com maior contraste).
+ */
+const estimateSkew = (gray: Uint8Array, width: number, height: number, threshold: number) => {
+  const dark: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (gray[y * width + x] <= threshold) dark.push(x - width / 2, y - height / 2);
+    }
+  }
+  if (dark.length < 40) return 0;
+
+  const bins = Math.ceil(Math.hypot(width, height)) + 2;
+  const offset = bins / 2;
+  let bestAngle = 0;
+  let bestScore = -1;
+  for (let deg = -MAX_SKEW_DEG; deg <= MAX_SKEW_DEG; deg += SKEW_STEP_DEG) {
+    const rad = (deg * Math.PI) / 180;
+    const sin = Math.sin(rad);
+    const cos = Math.cos(rad);
+    const rows = new Float64Array(bins);
+    for (let i = 0; i < dark.length; i += 2) {
+      rows[Math.round(dark[i + 1] * cos - dark[i] * sin + offset)]++;
+    }
+    let score = 0;
+    for (let r = 1; r < bins; r++) score += (rows[r] - rows[r - 1]) ** 2;
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = deg;
+    }
+  }
+  return bestAngle;
+};
+
+// bordas do cartão: linhas/colunas onde a maior parte dos pixels é papel
+const findCardBounds = (gray: Uint8Array, width: number, height: number, threshold: number) => {
+  const rowBright = new Array(height).fill(0);
+  const colBright = new Array(width).fill(0);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (gray[y * width + x] > threshold) {
+        rowBright[y]++;
+        colBright[x]++;
+      }
+    }
+  }
+  const rows = rowBright.map((n, y) => (n > width * 0.5 ? y : -1)).filter(y => y >= 0);
+  const cols = colBright.map((n, x) => (n > height * 0.5 ? x : -1)).filter(x => x >= 0);
+  if (!rows.length || !cols.length) return null;
+
+  const bounds = { x: cols[0], y: rows[0], width: cols[cols.length - 1] - cols[0] + 1, height: rows[rows.length - 1] - rows[0] + 1 };
+  // cartão pequeno demais = detecção falhou (fundo claro, reflexo): usa a moldura inteira
+  return bounds.width * bounds.height < width * height * 0.3 ? null : bounds;
+};
+
+const rotatedCanvas = (source: CanvasImageSource, sx: number, sy: number, sw: number, sh: number, width: number, height: number, deg: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d")!;
+  // fundo preto: os cantos que sobram da rotação não contam como papel
+  ctx.fillStyle = "#000000";
+  ctx.fillRect(0, 0, width, height);
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate((-deg * Math.PI) / 180);
+  ctx.drawImage(source, sx, sy, sw, sh, -width / 2, -height / 2, width, height);
+  return canvas;
+};
+
+const grayOf = (canvas: HTMLCanvasElement) =>
+  toGray(canvas.getContext("2d")!.getImageData(0, 0, canvas.width, canvas.height));
+
+/**
+ * Recorta o cartão dentro da moldura, corrige a inclinação e devolve um JPEG
+ * já reduzido para o /api/extract.
+ */
+export const captureCard = (video: HTMLVideoElement, guide: GuideRect = CARD_GUIDE): string => {
+  const sx = Math.round(video.videoWidth * guide.x);
+  const sy = Math.round(video.videoHeight * guide.y);
+  const sw = Math.round(video.videoWidth * guide.width);
+  const sh = Math.round(video.videoHeight * guide.height);
+
+  // análise numa cópia pequena (rápida no celular)
+  const scale = Math.min(1, ANALYSIS_SIDE / Math.max(sw, sh));
+  const aw = Math.round(sw * scale);
+  const ah = Math.round(sh * scale);
+  const straight = grayOf(rotatedCanvas(video, sx, sy, sw, sh, aw, ah, 0));
+  const threshold = otsuThreshold(straight);
+  const skew = estimateSkew(straight, aw, ah, threshold);
+  const bounds = findCardBounds(grayOf(rotatedCanvas(video, sx, sy, sw, sh, aw, ah, skew)), aw, ah, threshold);
+
+  const full = rotatedCanvas(video, sx, sy, sw, sh, sw, sh, skew);
+  const crop = bounds
+    ? { x: bounds.x / scale, y: bounds.y / scale, width: bounds.width / scale, height: bounds.height / scale }
+    : { x: 0, y: 0, width: sw, height: sh };
+
+  const ratio = Math.min(1, SCAN_MAX_SIDE / Math.max(crop.width, crop.height));
+  const out = document.createElement("canvas");
+  out.width = Math.round(crop.width * ratio);
+  out.height = Math.round(crop.height * ratio);
+  out.getContext("2d")!.drawImage(full, crop.x, crop.y, crop.width, crop.height, 0, 0, out.width, out.height);
+  return out.toDataURL("image/jpeg", SCAN_QUALITY);
+};
@@ -0,0 +1,134 @@
+import { CatalogueCategory, CatalogueItem, TimesheetItem } from "../types";
+
+const CATALOGUE_KEY = 'aes_catalogue';
+
+export const CATALOGUE_SECTIONS: { category: CatalogueCategory | 'other'; label: string }[] = [
+  { category: 'material', label: 'Material' },
+  { category: 'plant', label: 'Plant/Equipment' },
+  { category: 'environmental', label: 'Environmental' },
+  { category: 'other', label: 'Other' },
+];
+
+const defaults = (category: CatalogueCategory, entries: [string, string][]): CatalogueItem[] =>
+  entries.map(([name, unit], order) => ({
+    id: `${category}-${order}`,
+    name,
+    category,
+    unit,
+    order,
+    active: true,
+  }));
+
+export const DEFAULT_CATALOGUE: CatalogueItem[] = [
+  ...defaults('material', [
+    ['Black plastic', 'roll'], ['Clear plastic', 'roll'], ['Asbestos bags', 'ea'], ['Duct tape', 'roll'],
+    ['D/sided tape', 'roll'], ['Hazard tape', 'roll'], ['Coveralls', 'ea'], ['Gloves', 'pair'],
+    ['Boot covers', 'pair'], ['P2 respirators', 'ea'], ['Pre-filters', 'ea'], ['Pump box filters', 'ea'],
+    ['Vacuum bags', 'ea'], ['Geo-fabric', 'roll'], ['HEPA filters', 'ea'],
+  ]),
+  ...defaults('plant', [
+    ['Decontamination Unit', 'day'], ['Decontamination Trailer', 'day'], ['Portable wash station', 'day'],
+    ['Negative air unit', 'day'], ['HEPA vacuum', 'day'], ['Airless spray', 'day'], ['Platform ladder', 'day'],
+    ['Wet vacuum', 'day'], ['Generator - 2 KVA', 'day'], ['Generator - 7 KVA', 'day'], ['2t truck', 'day'],
+    ['6t truck', 'day'], ['HP washer', 'day'], ['Floor stripper', 'day'], ['Dehumidifier', 'day'],
+    ['Air mover', 'day'], ['Air Purifier', 'day'], ['Fencing', 'panel'],
+  ]),
+  ...defaults('environmental', [
+    ['Air monitoring', 'ea'], ['Air clearance monitoring', 'ea'], ['Clearance Inspection', 'ea'],
+    ['Asbestos sample analysis', 'sample'], ['Mould sample analysis', 'sample'],
+  ]),
+];
+
+export const loadCatalogue = (): CatalogueItem[] => {
+  try {
+    const saved = localStorage.getItem(CATALOGUE_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (err) {
+    console.error("Catalogue load error:", err);
+  }
+  return DEFAULT_CATALOGUE;
+};
+
+export const saveCatalogue = (catalogue: CatalogueItem[]) => {
+  localStorage.setItem(CATALOGUE_KEY, JSON.stringify(catalogue));
+};
+
+export const catalogueByCategory = (catalogue: CatalogueItem[], category: CatalogueCategory) =>
+  catalogue.filter(c => c.category === category).sort((a, b) => a.order - b.order);
+
+// ✅ nome atual ou antigo (aliases) — descrições já salvas continuam valendo
+export const matchesCatalogueItem = (entry: CatalogueItem, description: string) =>
+  entry.name === description || (entry.aliases || []).includes(description);
+
+export const findCatalogueItem = (catalogue: CatalogueItem[], description: string) =>
+  catalogue.find(c => matchesCatalogueItem(c, description));
+
+export type ResourceGridCell =
+  | { kind: 'item'; entry: CatalogueItem }
+  | { kind: 'section'; label: string }
+  | { kind: 'other'; slot: number }
+  | { kind: 'spacer' };
+
+export interface ResourceGridLayout {
+  headers: string[];
+  columns: ResourceGridCell[][];
+  rows: number;
+}
+
+/**
+ * Distribui o catálogo na grade da folha (4 colunas), na mesma lógica do
+ * formulário em papel: seções seguem na mesma coluna com espaço + cabeçalho,
+ * ou pulam para a próxima coluna quando não cabem. Itens desativados só
+ * aparecem se a folha já tiver quantidade para eles.
+ */
+export const layoutResourceGrid = (
+  catalogue: CatalogueItem[],
+  items: TimesheetItem[],
+  columnCount = 4,
+  minRows = 12
+): ResourceGridLayout => {
+  const hasQty = (entry: CatalogueItem) =>
+    items.some(i => i.category !== 'other' && matchesCatalogueItem(entry, i.description) && i.quantity);
+  const otherCount = items.filter(i => i.category === 'other').length;
+
+  for (let rows = minRows; ; rows++) {
+    const columns: ResourceGridCell[][] = [[]];
+    const headers: string[] = [CATALOGUE_SECTIONS[0].label];
+    const current = () => columns[columns.length - 1];
+    const nextColumn = (label: string) => {
+      while (current().length < rows) current().push({ kind: 'spacer' });
+      columns.push([]);
+      headers.push(label);
+    };
+    const push = (cell: ResourceGridCell, label: string) => {
+      if (current().length >= rows) nextColumn(label);
+      current().push(cell);
+    };
+
+    CATALOGUE_SECTIONS.forEach(({ category, label }, idx) => {
+      if (idx > 0) {
+        if (current().length === 0) headers[headers.length - 1] = label;
+        else if (rows - current().length >= 3) {
+          current().push({ kind: 'spacer' });
+          current().push({ kind: 'section', label });
+        } else nextColumn(label);
+      }
+
+      if (category === 'other') {
+        const slots = Math.max(otherCount, rows - current().length, 1);
+        for (let slot = 0; slot < slots; slot++) push({ kind: 'other', slot }, label);
+        return;
+      }
+
+      catalogueByCategory(catalogue, category)
+        .filter(entry => entry.active || hasQty(entry))
+        .forEach(entry => push({ kind: 'item', entry }, label));
+    });
+
+    if (columns.length <= columnCount) {
+      while (columns.length < columnCount) nextColumn("");
+      while (current().length < rows) current().push({ kind: 'spacer' });
+      return { headers, columns, rows };
+    }
+  }
+};
@@ -0,0 +1,70 @@
+export type CsvCell = string | number | null | undefined;
+
+// ✅ RFC 4180: aspas quando tem vírgula, aspas ou quebra de linha
+const escapeCell = (cell: CsvCell) => {
+  const v = cell === null || cell === undefined ? "" : String(cell);
+  return /[",\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+};
+
+export const toCsv = (rows: CsvCell[][]) => rows.map(row => row.map(escapeCell).join(",")).join("\r\n");
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.download = filename;
+  link.href = url;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// BOM para o Excel abrir acentos certo
+export const downloadCsv = (rows: CsvCell[][], filename: string) =>
+  downloadBlob(new Blob(["\uFEFF", toCsv(rows)], { type: "text/csv;charset=utf-8" }), filename);
+
+/**
+ * Lê CSV com aspas (RFC 4180). Aceita vírgula ou ponto e vírgula
+ * (Excel em pt-BR exporta com ";"), detectado pela primeira linha.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const src = text.replace(/^\uFEFF/, "");
+  const firstLine = src.split(/\r?\n/, 1)[0] || "";
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ";" : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && !cell) {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(c => c.trim()));
+};
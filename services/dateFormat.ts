@@ -0,0 +1,83 @@
+import { SheetDateFormat } from "../types";
+
+const SHEET_DATE_KEY = 'aes_sheet_date';
+
+// ✅ data impressa na folha: independente do idioma da interface
+export type SheetDateSettings = SheetDateFormat;
+
+export const DEFAULT_SHEET_DATE: SheetDateSettings = { locale: 'en-AU', pattern: 'DD/MM/YYYY' };
+
+export const SHEET_DATE_LOCALES = ['en-AU', 'en-GB', 'en-US', 'en-NZ', 'pt-BR'];
+export const SHEET_DATE_PATTERNS = ['DD/MM/YYYY', 'D/M/YYYY', 'DD/MM/YY', 'DD-MM-YYYY', 'DD MMM YYYY', 'YYYY-MM-DD', 'MM/DD/YYYY'];
+
+export const loadSheetDateSettings = (): SheetDateSettings => {
+  try {
+    const saved = localStorage.getItem(SHEET_DATE_KEY);
+    if (saved) return { ...DEFAULT_SHEET_DATE, ...JSON.parse(saved) };
+  } catch (err) {
+    console.error("Sheet date settings load error:", err);
+  }
+  return DEFAULT_SHEET_DATE;
+};
+
+export const saveSheetDateSettings = (settings: SheetDateSettings) => {
+  localStorage.setItem(SHEET_DATE_KEY, JSON.stringify(settings));
+};
+
+const TOKENS = /YYYY|YY|MMM|MM|M|DD|D/g;
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// nomes curtos dos meses no locale ("Mar", "mar."), sem o ponto final
+const monthNames = (locale: string) =>
+  Array.from({ length: 12 }, (_, m) =>
+    new Intl.DateTimeFormat(locale, { month: 'short', timeZone: 'UTC' }).format(new Date(Date.UTC(2000, m, 1))).replace(/\.$/, "")
+  );
+
+/** "DD MMM YYYY" + en-AU -> "17 Mar 2025". Letras fora dos tokens saem como estão. */
+export const formatSheetDate = (date: Date, { locale, pattern }: SheetDateSettings = loadSheetDateSettings()): string =>
+  pattern.replace(TOKENS, token => {
+    switch (token) {
+      case 'YYYY': return String(date.getFullYear());
+      case 'YY': return String(date.getFullYear()).slice(-2);
+      case 'MMM': return monthNames(locale)[date.getMonth()];
+      case 'MM': return pad(date.getMonth() + 1);
+      case 'M': return String(date.getMonth() + 1);
+      case 'DD': return pad(date.getDate());
+      default: return String(date.getDate());
+    }
+  });
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Lê uma data escrita no formato configurado -> "YYYY-MM-DD".
+ * Null quando o texto não segue o formato (quem chama tenta os outros).
+ */
+export const parseWithPattern = (value: string, { locale, pattern }: SheetDateSettings = loadSheetDateSettings()): string | null => {
+  const order: string[] = [];
+  let source = "";
+  let last = 0;
+  pattern.replace(TOKENS, (token, offset: number) => {
+    source += escapeRegex(pattern.slice(last, offset));
+    source += token === 'YYYY' ? '(\\d{4})' : token === 'YY' ? '(\\d{2})' : token === 'MMM' ? '([^\\d\\s/.,-]+)\\.?' : '(\\d{1,2})';
+    order.push(token);
+    last = offset + token.length;
+    return token;
+  });
+  source += escapeRegex(pattern.slice(last));
+
+  const m = (value || "").trim().match(new RegExp(`^${source}$`, 'i'));
+  if (!m) return null;
+
+  let year = 0, month = 0, day = 0;
+  order.forEach((token, i) => {
+    const part = m[i + 1];
+    if (token === 'YYYY') year = Number(part);
+    else if (token === 'YY') year = 2000 + Number(part);
+    else if (token === 'MMM') month = monthNames(locale).findIndex(name => name.toLowerCase() === part.toLowerCase()) + 1;
+    else if (token.startsWith('M')) month = Number(part);
+    else day = Number(part);
+  });
+  if (!year || month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
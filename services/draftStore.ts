@@ -0,0 +1,37 @@
+import { SavedTimesheet, TimesheetDraft } from "../types";
+import { DRAFTS_STORE, openDatabase, requestToPromise, transactionDone } from "./historyStore";
+
+type SheetContent = Pick<SavedTimesheet, 'data' | 'mySignature' | 'supervisorSignature' | 'photos' | 'printPhotos' | 'signatureMeta' | 'signatureVectors'>;
+
+/**
+ * Chave do rascunho: a folha já salva, senão a sessão de edição. Duas folhas
+ * novas do mesmo job (ex.: dias seguidos) são rascunhos separados; o painel
+ * só as agrupa pelo job.
+ */
+export const draftKey = (sheetId: string | null, sessionKey: string) => sheetId ?? sessionKey;
+
+// ✅ o que vai para o histórico; igual ao último salvo = nada a recuperar
+export const sheetSnapshot = ({ data, mySignature, supervisorSignature, photos, printPhotos, signatureMeta, signatureVectors }: SheetContent) =>
+  JSON.stringify([data, mySignature, supervisorSignature, photos ?? [], printPhotos ?? true, signatureMeta ?? {}, signatureVectors ?? {}]);
+
+export const putDraft = async (draft: TimesheetDraft) => {
+  const db = await openDatabase();
+  const tx = db.transaction(DRAFTS_STORE, 'readwrite');
+  tx.objectStore(DRAFTS_STORE).put(draft);
+  await transactionDone(tx);
+};
+
+export const listDrafts = async (): Promise<TimesheetDraft[]> => {
+  const db = await openDatabase();
+  const drafts = await requestToPromise<TimesheetDraft[]>(
+    db.transaction(DRAFTS_STORE).objectStore(DRAFTS_STORE).index('updatedAt').getAll()
+  );
+  return drafts.reverse();
+};
+
+export const deleteDraft = async (id: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction(DRAFTS_STORE, 'readwrite');
+  tx.objectStore(DRAFTS_STORE).delete(id);
+  await transactionDone(tx);
+};
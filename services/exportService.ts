@@ -0,0 +1,138 @@
+import { strToU8, zipSync } from "fflate";
+import { CatalogueItem, SavedTimesheet } from "../types";
+import { CATALOGUE_SECTIONS, findCatalogueItem } from "./catalogueService";
+import { parseSheetDate } from "./historyStore";
+import { compareSerials } from "./serialService";
+import { WASTE_FACILITIES, WASTE_TYPES, WASTE_WEIGHT_SLOTS } from "./timesheetModel";
+import { calculateCrewMinutes, minutesToHoursString } from "./timeEngine";
+import { CsvCell, downloadBlob, toCsv } from "./csv";
+
+export type ExportTableName = 'header' | 'labour' | 'items' | 'waste';
+
+export type ExportTables = Record<ExportTableName, CsvCell[][]>;
+
+// ✅ colunas fixas (não reordenar: as planilhas da contabilidade importam por posição)
+const KEY_COLUMNS = ['Serial', 'Timesheet ID', 'Date', 'Job No'];
+
+export const EXPORT_COLUMNS: Record<ExportTableName, string[]> = {
+  header: [
+    ...KEY_COLUMNS, 'Client', 'Client PO', 'Contact Name', 'Contact Number', 'Contact Email', 'Address', 'Description',
+    'Quoted', 'Rates', 'Supervisor', 'Client Rep', 'Start', 'Finish', 'Travel', 'Break', 'Total',
+    'Include Travel', 'Supervisor Allowances', 'Crew Total h', 'Notes', 'Saved At',
+  ],
+  labour: [...KEY_COLUMNS, 'Row', 'Name', 'Start', 'Finish', 'Travel', 'Break', 'Total', 'Allowances'],
+  items: [...KEY_COLUMNS, 'Category', 'Description', 'Unit', 'Quantity'],
+  waste: [
+    ...KEY_COLUMNS,
+    ...WASTE_TYPES.map(t => `Type: ${t}`),
+    ...Array.from({ length: WASTE_WEIGHT_SLOTS }, (_, i) => `Weight ${i + 1} kg`),
+    ...WASTE_FACILITIES.map(f => `Facility: ${f.replace(/:$/, '')}`),
+    'Other Facility',
+  ],
+};
+
+const SHEET_NAMES: Record<ExportTableName, string> = {
+  header: 'Header',
+  labour: 'Labour',
+  items: 'Materials & Plant',
+  waste: 'Waste',
+};
+
+const flag = (on: boolean) => (on ? 'X' : '');
+
+// ✅ "12" / "1,5" viram número para a planilha somar; o resto fica como texto
+const num = (value: string): CsvCell => {
+  const v = (value || "").trim();
+  return /^-?\d+([.,]\d+)?$/.test(v) ? Number(v.replace(",", ".")) : v;
+};
+
+const categoryLabel = (category: string) => CATALOGUE_SECTIONS.find(s => s.category === category)?.label ?? category;
+
+/**
+ * Uma linha por folha (header/waste), por labourer preenchido (labour)
+ * e por item com quantidade (items). Serial + Timesheet ID ligam as tabelas.
+ */
+export const buildExportTables = (entries: SavedTimesheet[], catalogue: CatalogueItem[]): ExportTables => {
+  const tables: ExportTables = {
+    header: [EXPORT_COLUMNS.header],
+    labour: [EXPORT_COLUMNS.labour],
+    items: [EXPORT_COLUMNS.items],
+    waste: [EXPORT_COLUMNS.waste],
+  };
+
+  const sorted = [...entries].sort((a, b) => compareSerials(a.serial, b.serial));
+  for (const entry of sorted) {
+    const { data } = entry;
+    const key: CsvCell[] = [entry.serial, entry.id, parseSheetDate(data.date, data.dateFormat) ?? data.date, data.jobId];
+
+    tables.header.push([
+      ...key, data.client, data.clientPoNumber, data.contactName, data.contactNumber, data.contactEmail, data.address, data.description,
+      flag(data.quoted), flag(data.rates), data.supervisorName, data.clientRepName, data.startTime, data.finishTime,
+      data.travelTime, data.breakTime, num(data.totalTime), flag(data.includeTravel), data.supervisorAllowances,
+      num(minutesToHoursString(calculateCrewMinutes(data))), data.notes, new Date(entry.timestamp).toISOString(),
+    ]);
+
+    data.labour.forEach((row, i) => {
+      if (![row.name, row.startTime, row.finishTime, row.totalTime].some(v => (v || "").trim())) return;
+      tables.labour.push([
+        ...key, i + 1, row.name, row.startTime, row.finishTime, row.travelTime, row.breakTime, num(row.totalTime), row.allowances,
+      ]);
+    });
+
+    data.items.forEach(item => {
+      if (!(item.quantity || "").trim()) return;
+      const entryInCatalogue = item.category === 'other' ? undefined : findCatalogueItem(catalogue, item.description);
+      tables.items.push([
+        ...key,
+        categoryLabel(item.category),
+        entryInCatalogue?.name ?? item.description,
+        item.unit || entryInCatalogue?.unit || "",
+        num(item.quantity),
+      ]);
+    });
+
+    tables.waste.push([
+      ...key,
+      ...WASTE_TYPES.map(t => flag(data.waste.types.includes(t))),
+      ...Array.from({ length: WASTE_WEIGHT_SLOTS }, (_, i) => num(data.waste.weightsKg[i] || "")),
+      ...WASTE_FACILITIES.map(f => flag(data.waste.facilities.includes(f))),
+      data.waste.otherFacility,
+    ]);
+  }
+
+  return tables;
+};
+
+const exportStamp = () => new Date().toISOString().slice(0, 10);
+
+// ✅ CSV não tem abas: um arquivo por tabela, num .zip só (vários downloads seguidos o navegador bloqueia)
+export const exportHistoryCsv = (entries: SavedTimesheet[], catalogue: CatalogueItem[]) => {
+  const tables = buildExportTables(entries, catalogue);
+  const files = Object.fromEntries(
+    (Object.keys(tables) as ExportTableName[]).map(name => [
+      `AES-Timesheets-${exportStamp()}-${name}.csv`,
+      strToU8(`\uFEFF${toCsv(tables[name])}`),
+    ])
+  );
+  downloadBlob(new Blob([zipSync(files)], { type: "application/zip" }), `AES-Timesheets-${exportStamp()}-csv.zip`);
+};
+
+// exceljs só carrega quando alguém exporta XLSX (é grande)
+export const buildHistoryWorkbook = async (entries: SavedTimesheet[], catalogue: CatalogueItem[]) => {
+  const { default: ExcelJS } = await import("exceljs");
+  const tables = buildExportTables(entries, catalogue);
+  const workbook = new ExcelJS.Workbook();
+  (Object.keys(tables) as ExportTableName[]).forEach(name =>
+    workbook.addWorksheet(SHEET_NAMES[name]).addRows(tables[name].map(row => row.map(cell => cell ?? "")))
+  );
+  return workbook;
+};
+
+export const exportHistoryXlsx = async (entries: SavedTimesheet[], catalogue: CatalogueItem[]) => {
+  const workbook = await buildHistoryWorkbook(entries, catalogue);
+  const buffer = await workbook.xlsx.writeBuffer();
+  downloadBlob(
+    new Blob([buffer], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" }),
+    `AES-Timesheets-${exportStamp()}.xlsx`
+  );
+};
@@ -1,30 +1,63 @@
-import { TimesheetData } from "../types";
+import { FieldConfidence, TimesheetData } from "../types";
+import { migrateTimesheetData, newId } from "./timesheetModel";
+import { loadCatalogue } from "./catalogueService";
+import { applyProfileDefaults, getActiveProfile } from "./profileService";
+import { applyCalculatedTotals } from "./timeEngine";
+import { formatSheetDate } from "./dateFormat";
 
-export const extractTimesheetData = async (base64Image: string): Promise<TimesheetData> => {
-  const res = await fetch("/api/extract", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ base64Image }),
-  });
+// ✅ só o fetch que não chegou ao servidor (sem rede): o resto é erro de verdade, não "offline"
+export class NetworkError extends Error {
+  constructor(cause: unknown) {
+    super(`Network request failed: ${(cause as any)?.message || cause}`);
+    this.name = "NetworkError";
+  }
+}
+
+// ✅ images: data URLs (png/jpeg/pdf) do mesmo job, na ordem de prioridade
+export const extractTimesheetData = async (images: string[]): Promise<TimesheetData> => {
+  let res: Response;
+  try {
+    res = await fetch("/api/extract", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ images }),
+    });
+  } catch (err) {
+    throw new NetworkError(err);
+  }
 
   if (!res.ok) {
     const txt = await res.text();
     throw new Error(txt || `HTTP ${res.status}`);
   }
 
-  const parsed = await res.json();
+  return timesheetFromExtraction(await res.json());
+};
+
+/**
+ * Monta a folha a partir dos campos do job (resposta da extração ou job
+ * importado): data de hoje, client rep, perfil ativo e TOTAL calculados.
+ */
+export const timesheetFromExtraction = (parsed: any): TimesheetData => {
+  // ✅ ids fixos nos itens para a confiança apontar para `items.<id>`
+  const confidence: Record<string, FieldConfidence> = { ...(parsed.confidence || {}) };
+  const items = (parsed.items || []).map(({ confidence: score, source, ...item }: any) => {
+    const id = newId();
+    if (typeof score === "number") confidence[`items.${id}`] = { score, source };
+    return { ...item, id };
+  });
 
-  const today = new Date().toLocaleDateString("pt-BR");
+  const today = formatSheetDate(new Date());
 
-  return {
+  const data = migrateTimesheetData({
     ...parsed,
+    items,
+    confidence,
     date: today,
-    supervisorName: "GABRIEL HENRIQUE DA SILVA",
     clientRepName: parsed.client || "",
-    startTime: "08:00",
-    finishTime: "18:30",
-    travelTime: "00:00",
-    totalTime: "10:30",
     notes: "",
-  };
+  }, loadCatalogue());
+
+  // ✅ supervisor, horários e equipe vêm do perfil ativo
+  return applyCalculatedTotals(applyProfileDefaults(data, getActiveProfile()));
 };
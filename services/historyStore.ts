@@ -0,0 +1,202 @@
+import { HistoryFilter, SavedTimesheet, SheetDateFormat } from "../types";
+import { migrateTimesheetData } from "./timesheetModel";
+import { loadCatalogue } from "./catalogueService";
+import { parseWithPattern } from "./dateFormat";
+
+const DB_NAME = 'aes_timesheets';
+const DB_VERSION = 4;
+const HISTORY_STORE = 'history';
+export const SCAN_QUEUE_STORE = 'scanQueue';
+export const DRAFTS_STORE = 'drafts';
+export const REVISIONS_STORE = 'revisions';
+const LEGACY_HISTORY_KEY = 'aes_timesheet_history';
+
+// ✅ campos normalizados só para os índices (busca sem case)
+type StoredTimesheet = SavedTimesheet & {
+  clientKey: string;
+  jobKey: string;
+  dateKey: string;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const requestToPromise = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+        const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+        store.createIndex('serial', 'serial');
+        store.createIndex('timestamp', 'timestamp');
+        store.createIndex('clientKey', 'clientKey');
+        store.createIndex('jobKey', 'jobKey');
+        store.createIndex('dateKey', 'dateKey');
+      }
+      // v2: prints tirados offline esperando extração
+      if (!db.objectStoreNames.contains(SCAN_QUEUE_STORE)) {
+        db.createObjectStore(SCAN_QUEUE_STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+      }
+      // v3: folhas em edição (autosave), fora do histórico
+      if (!db.objectStoreNames.contains(DRAFTS_STORE)) {
+        db.createObjectStore(DRAFTS_STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+      }
+      // v4: revisões anteriores de cada folha (o histórico guarda só a atual)
+      if (!db.objectStoreNames.contains(REVISIONS_STORE)) {
+        db.createObjectStore(REVISIONS_STORE, { keyPath: ['id', 'revision'] }).createIndex('id', 'id');
+      }
+    };
+
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Data da folha em ISO. Primeiro o formato gravado na própria folha (nunca o
+ * configurado agora: trocar a configuração não pode reler folhas salvas);
+ * depois "17/03/2025", "17-03-25" ou "2025-03-17".
+ */
+export const parseSheetDate = (value: string, format?: SheetDateFormat): string | null => {
+  const v = (value || "").trim();
+  const stamped = format ? parseWithPattern(v, format) : null;
+  if (stamped) return stamped;
+
+  let m = v.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (m) return `${m[1]}-${pad(Number(m[2]))}-${pad(Number(m[3]))}`;
+
+  m = v.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (m) {
+    const year = m[3].length === 2 ? `20${m[3]}` : m[3];
+    return `${year}-${pad(Number(m[2]))}-${pad(Number(m[1]))}`;
+  }
+  return null;
+};
+
+const timestampToDateKey = (ts: number) => {
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+const toStored = (entry: SavedTimesheet): StoredTimesheet => ({
+  ...entry,
+  clientKey: (entry.data.client || "").trim().toLowerCase(),
+  jobKey: (entry.data.jobId || "").trim().toLowerCase(),
+  dateKey: parseSheetDate(entry.data.date, entry.data.dateFormat) ?? timestampToDateKey(entry.timestamp),
+});
+
+const fromStored = ({ clientKey, jobKey, dateKey, ...entry }: StoredTimesheet): SavedTimesheet => entry;
+
+const byNewest = (a: SavedTimesheet, b: SavedTimesheet) => b.timestamp - a.timestamp;
+
+export const putHistoryEntry = async (entry: SavedTimesheet) => {
+  const db = await openDatabase();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  tx.objectStore(HISTORY_STORE).put(toStored(entry));
+  await transactionDone(tx);
+};
+
+export const getHistoryEntry = async (id: string): Promise<SavedTimesheet | null> => {
+  const db = await openDatabase();
+  const stored = await requestToPromise<StoredTimesheet | undefined>(
+    db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).get(id)
+  );
+  return stored ? fromStored(stored) : null;
+};
+
+export const deleteHistoryEntry = async (id: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  tx.objectStore(HISTORY_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+export const countHistory = async (): Promise<number> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).count());
+};
+
+const prefixRange = (value: string) => IDBKeyRange.bound(value, `${value}\uffff`);
+
+/**
+ * Busca no histórico usando o índice mais seletivo disponível
+ * (serial > job no > cliente > período) e filtra o resto em memória.
+ */
+export const searchHistory = async (filter: HistoryFilter = {}): Promise<SavedTimesheet[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE);
+
+  const client = (filter.client || "").trim().toLowerCase();
+  const jobId = (filter.jobId || "").trim().toLowerCase();
+  const serial = (filter.serial || "").trim();
+  const { dateFrom, dateTo } = filter;
+
+  let req: IDBRequest<StoredTimesheet[]>;
+  if (serial && Number.isFinite(Number(serial))) {
+    req = store.index('serial').getAll(Number(serial));
+  } else if (jobId) {
+    req = store.index('jobKey').getAll(prefixRange(jobId));
+  } else if (client) {
+    req = store.index('clientKey').getAll(prefixRange(client));
+  } else if (dateFrom || dateTo) {
+    const range = dateFrom && dateTo
+      ? IDBKeyRange.bound(dateFrom, dateTo)
+      : dateFrom ? IDBKeyRange.lowerBound(dateFrom) : IDBKeyRange.upperBound(dateTo!);
+    req = store.index('dateKey').getAll(range);
+  } else {
+    req = store.getAll();
+  }
+
+  const results = (await requestToPromise(req)).filter(entry =>
+    (!serial || String(entry.serial).includes(serial) || (entry.provisionalSerial ?? "").toUpperCase().includes(serial.toUpperCase())) &&
+    (!jobId || entry.jobKey.includes(jobId)) &&
+    (!client || entry.clientKey.includes(client)) &&
+    (!dateFrom || entry.dateKey >= dateFrom) &&
+    (!dateTo || entry.dateKey <= dateTo)
+  );
+
+  return results.map(fromStored).sort(byNewest);
+};
+
+// ✅ Migra o histórico antigo do localStorage na primeira abertura
+export const migrateLegacyHistory = async () => {
+  const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!saved) return;
+
+  const catalogue = loadCatalogue();
+  const entries: SavedTimesheet[] = JSON.parse(saved).map((entry: SavedTimesheet) => ({
+    ...entry,
+    data: migrateTimesheetData(entry.data, catalogue),
+  }));
+
+  const db = await openDatabase();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  const store = tx.objectStore(HISTORY_STORE);
+  entries.forEach(entry => store.put(toStored(entry)));
+  await transactionDone(tx);
+
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+};
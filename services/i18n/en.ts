@@ -0,0 +1,243 @@
+// ✅ catálogo base: toda chave nova entra aqui primeiro (o pt.ts é checado contra ele)
+export const en = {
+  'common.back': "Back",
+  'common.cancel': "Cancel",
+  'common.save': "Save",
+  'common.clear': "Clear",
+  'common.undo': "Undo",
+  'common.confirm': "Confirm",
+  'common.language': "Language",
+
+  'header.profile': "Profile",
+  'header.settings': "Settings",
+  'header.reports': "Reports",
+  'header.newScan': "New Scan",
+  'header.camera': "Camera",
+  'header.importJobs': "Import Jobs",
+  'header.exit': "Exit",
+  'header.sign': "Sign",
+  'header.saveExport': "Save & Export",
+  'header.exportPdf': "Export PDF",
+  'header.send': "Send",
+  'header.amend': "Amend",
+
+  'error.exportSpreadsheet': "Failed to export spreadsheet.",
+  'error.noJobs': "No jobs found in the file.",
+  'error.readJobs': "Failed to read the jobs file.",
+  'error.attachPhoto': "Failed to attach photo.",
+  'error.readFile': "Failed to read the file.",
+  'error.queueScan': "Failed to queue the scan.",
+  'error.scanCapture': "Scan capture error: {message}",
+  'error.exportPdf': "Failed to export A4 PDF.",
+  'error.exportImage': "Failed to export A4 image.",
+  'error.prepareSend': "Failed to prepare the send.",
+  'error.send': "Failed to send the timesheet.",
+  'error.amend': "Failed to amend the timesheet.",
+  'error.revisions': "Failed to load the revisions.",
+
+  'banner.offlineQueued': "Offline: the scan is queued and will be read automatically when the signal returns. Fill it in by hand meanwhile; what you type will not be overwritten.",
+  'loading.processing': "Processing...",
+
+  'edit.title': "Smart Edit Panel (All Fields)",
+  'edit.revision': "Rev {n}",
+  'edit.lockedNotice': "Signed sheet: fields are locked. Use Amend to change it; the signed version is kept as a revision.",
+  'edit.signatureSvg': "Download signature (SVG):",
+  'edit.issueCount': "{errors} error(s), {warnings} warning(s)",
+  'edit.supervisorSection': "Supervisor & Times",
+  'edit.labourSection': "Labour & Times",
+  'edit.resourcesSection': "Resources & Supplies",
+  'edit.tippingSection': "Tipping Details",
+  'edit.confidenceRead': "read",
+  'edit.confirmField': "Confirm",
+
+  'field.client': "Client",
+  'field.jobNo': "Job No",
+  'field.date': "Date",
+  'field.contactName': "Contact Name",
+  'field.phone': "Telephone/Mobile",
+  'field.contactEmail': "Contact Email",
+  'field.address': "Job Site Address",
+  'field.description': "Task Description",
+  'field.supervisorName': "Supervisor Name",
+  'field.start': "Start",
+  'field.finish': "Finish",
+  'field.travel': "Travel",
+  'field.break': "Break",
+  'field.total': "Total",
+  'field.breakPlaceholder': "0.5 or 00:30",
+  'field.totalHint': "Calculated automatically: (Finish - Start) - Break (+ Travel)",
+  'field.includeTravel': "Include travel time in the TOTAL (supervisor and labour)",
+  'field.supervisorAllowances': "Supervisor Allowances",
+  'field.allowancesPlaceholder': "E.g. Meal, Parking, etc",
+  'field.labourerName': "Labourer Name {n}",
+  'field.crewTotal': "Crew Total:",
+  'field.otherSlot': "Other {n}",
+  'field.wasteTypes': "Waste Types:",
+  'field.facilities': "Facilities:",
+  'field.otherFacility': "Other Facility Name",
+  'field.notes': "Notes / Variations",
+  'field.clientRepName': "Client Representative Name",
+  'field.supervisorSignature': "Supervisor signature",
+  'field.clientSignature': "Client signature",
+  'field.invalidated': "(invalidated)",
+
+  'validation.required': "{label} is required",
+  'validation.empty': "{label} is empty",
+  'validation.email': "Contact email \"{value}\" does not look valid",
+  'validation.who.supervisor': "Supervisor",
+  'validation.who.labourer': "Labourer {n}",
+  'validation.time.start': "start time",
+  'validation.time.finish': "finish time",
+  'validation.time.travel': "travel time",
+  'validation.time.break': "break",
+  'validation.timeRequired': "{who} {label} is required",
+  'validation.clock': "{who} {label} \"{value}\" is not a valid time (use 07:30)",
+  'validation.duration': "{who} {label} \"{value}\" is not a valid duration (use 0.5 or 00:30)",
+  'validation.totalUnchecked': "{who} total was typed by hand and cannot be checked",
+  'validation.breakTooLong': "{who} break is longer than the shift",
+  'validation.totalMismatch': "{who} total should be {hours} h from start/finish/break",
+  'validation.labourNoName': "Labour row {n} has times but no name",
+  'validation.other': "Other",
+  'validation.otherItem': "Other item",
+  'validation.quantity': "Quantity \"{value}\" for {item} is not a number",
+  'validation.otherNoDescription': "Other item has a quantity but no description",
+  'validation.wasteWeight': "Waste weight \"{value}\" is not a number",
+  'validation.wasteNoWeight': "Waste type ticked but no weight recorded",
+  'validation.otherFacility': "Name the other waste facility",
+  'validation.lowConfidence': "{label} was read with low confidence ({score}%), please confirm",
+  'validation.signatureMissing': "{label} is missing",
+  'validation.signatureInvalidated': "{label} is invalidated: the sheet was edited after signing",
+
+  'status.draft': "Draft",
+  'status.awaiting_signature': "Awaiting signature",
+  'status.signed': "Signed",
+  'status.submitted': "Submitted",
+  'status.amended': "Amended",
+
+  'exportErrors.title': "Timesheet has errors",
+  'exportErrors.fix': "Fix",
+  'exportErrors.exportAnyway': "Export anyway",
+
+  'signing.title': "Signatures",
+  'signing.invalidated': "The sheet was changed after it was signed. Sign again to validate it.",
+  'signing.signerPlaceholder': "Name of the person signing",
+  'signing.clientRep': "Client Representative",
+  'signing.supervisor': "AES Supervisor",
+  'signing.useSaved': "Sign with my saved signature",
+  'signing.recordLocation': "Record location (GPS) with the signature",
+
+  'history.title': "Timesheet History",
+  'history.serial': "Serial",
+  'history.provisional': "was {serial}",
+  'history.from': "From",
+  'history.to': "To",
+  'history.clearFilters': "Clear filters",
+  'history.selected': "{n} selected",
+  'history.inFilter': "{n} in filter",
+  'history.empty': "No timesheets found.",
+
+  'jobImport.title': "Import Job",
+  'jobImport.count': "{n} job(s)",
+  'jobImport.search': "Search by job no, client or address",
+  'jobImport.empty': "No jobs found.",
+  'jobImport.plannedItems': "{n} planned item(s)",
+
+  'revisions.title': "Revisions",
+  'revisions.open': "Revisions",
+  'revisions.current': "Current",
+  'revisions.restore': "Restore",
+  'revisions.compare': "Compare",
+  'revisions.noChanges': "No differences between these revisions.",
+  'revisions.section.header': "Header",
+  'revisions.section.labour': "Labour",
+  'revisions.section.items': "Quantities",
+  'revisions.section.waste': "Tipping",
+  'revisions.section.signatures': "Signatures",
+
+  'drafts.title': "Drafts in progress",
+  'drafts.job': "Job {job}",
+  'drafts.noJob': "No job number",
+  'drafts.count': "{n} sheets",
+  'drafts.untitled': "Untitled sheet",
+  'drafts.notExported': "Not exported yet",
+  'drafts.unsavedChanges': "Unsaved changes",
+  'drafts.resume': "Resume",
+  'drafts.discard': "Discard draft",
+
+  'scanQueue.title': "Queued scans",
+  'scanQueue.processNow': "Process now",
+  'scanQueue.pending': "Waiting for connection",
+  'scanQueue.failed': "Failed",
+  'scanQueue.done': "Ready",
+  'scanQueue.files': "{n} file(s)",
+  'scanQueue.open': "Open",
+
+  'catalogue.title': "Materials & Equipment Catalogue",
+  'catalogue.restoreDefaults': "Restore defaults",
+  'catalogue.descriptionPlaceholder': "Description",
+  'catalogue.unitPlaceholder': "Unit",
+  'catalogue.active': "Active",
+  'catalogue.addItem': "Add item",
+
+  'sheetDate.title': "Sheet Date",
+  'sheetDate.hint': "Date stamped on new timesheets. Independent of the app language.",
+  'sheetDate.locale': "Locale",
+  'sheetDate.pattern': "Format",
+  'sheetDate.preview': "Today: {date}",
+
+  'payroll.title': "Payroll Summary",
+  'payroll.count': "{n} timesheet(s)",
+  'payroll.worker': "Worker",
+  'payroll.week': "Week",
+  'payroll.days': "Days",
+  'payroll.jobs': "Jobs",
+  'payroll.normal': "Normal",
+  'payroll.overtime': "Overtime",
+  'payroll.travel': "Travel",
+  'payroll.total': "Total",
+  'payroll.allowances': "Allowances",
+  'payroll.wholeWeeks': "Overtime needs whole weeks: showing {from} to {to} (Monday to Sunday).",
+  'payroll.empty': "No hours in this period.",
+  'payroll.exportCsv': "Export CSV",
+
+  'profile.title': "Supervisor Profile",
+  'profile.firstAccess': "First access",
+  'profile.newProfile': "New profile",
+  'profile.addProfile': "Add profile",
+  'profile.crew': "Default crew (one name per line)",
+  'profile.savedSignature': "Saved signature",
+  'profile.noSignature': "No signature",
+  'profile.redoSignature': "Redo",
+  'profile.sign': "Sign",
+  'profile.remove': "Remove profile",
+  'profile.saveAndUse': "Save & Use",
+
+  'photos.title': "Photos & Evidence",
+  'photos.takePhoto': "Take photo",
+  'photos.upload': "Upload photos",
+  'photos.empty': "Before/after, waste bags, weighbridge tickets…",
+  'photos.captionPlaceholder': "Caption",
+  'photos.includeInPdf': "Include photos in the PDF (appendix after the sheet)",
+
+  'camera.title': "Scan Job Card",
+  'camera.count': "{n} photo(s)",
+  'camera.alignGuide': "Align the card inside the frame",
+  'camera.unsupported': "This browser has no camera access. Use the New Scan button.",
+  'camera.denied': "No camera permission. Allow access or use the New Scan button.",
+  'camera.captureFailed': "Failed to capture the photo.",
+  'camera.capture': "Capture",
+  'camera.readOne': "Read photo",
+  'camera.readMany': "Read {n} photos",
+
+  'send.title': "Send Timesheet",
+  'send.to': "To:",
+  'send.subject': "Subject:",
+  'send.attachment': "Attachment:",
+  'send.generating': "Generating file…",
+  'send.share': "Share (WhatsApp, email…)",
+  'send.eml': ".eml draft (with attachment)",
+  'send.mailto': "Open email (mailto)",
+  'send.noFileShare': "This browser cannot share files. With mailto the file is downloaded for you to attach.",
+} as const;
+
+export type MessageKey = keyof typeof en;
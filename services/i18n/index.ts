@@ -0,0 +1,44 @@
+import { en, MessageKey } from "./en";
+import { pt } from "./pt";
+import { TimesheetStatus } from "../../types";
+
+export type { MessageKey };
+export type Language = 'en' | 'pt';
+
+export const LANGUAGES: { id: Language; label: string }[] = [
+  { id: 'en', label: 'English' },
+  { id: 'pt', label: 'Português' },
+];
+
+const LANGUAGE_KEY = 'aes_language';
+const CATALOGUES: Record<Language, Record<MessageKey, string>> = { en, pt };
+
+const isLanguage = (value: unknown): value is Language => LANGUAGES.some(l => l.id === value);
+
+// ✅ sem escolha salva: segue o idioma do aparelho (pt-* -> pt, resto -> en)
+const initialLanguage = (): Language => {
+  try {
+    const saved = localStorage.getItem(LANGUAGE_KEY);
+    if (isLanguage(saved)) return saved;
+  } catch {}
+  return typeof navigator !== "undefined" && navigator.language?.toLowerCase().startsWith("pt") ? 'pt' : 'en';
+};
+
+let current: Language = initialLanguage();
+
+export const getLanguage = () => current;
+
+// quem troca o idioma também re-renderiza a árvore (estado no App)
+export const setLanguage = (language: Language) => {
+  current = language;
+  localStorage.setItem(LANGUAGE_KEY, language);
+};
+
+/** Texto da interface no idioma atual; `{name}` é trocado por params.name. */
+export const t = (key: MessageKey, params?: Record<string, string | number>): string => {
+  const message = CATALOGUES[current][key] ?? en[key];
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+};
+
+export const statusLabel = (status: TimesheetStatus) => t(`status.${status}`);
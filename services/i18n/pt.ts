@@ -0,0 +1,242 @@
+import { MessageKey } from "./en";
+
+export const pt: Record<MessageKey, string> = {
+  'common.back': "Voltar",
+  'common.cancel': "Cancelar",
+  'common.save': "Salvar",
+  'common.clear': "Limpar",
+  'common.undo': "Desfazer",
+  'common.confirm': "Confirmar",
+  'common.language': "Idioma",
+
+  'header.profile': "Perfil",
+  'header.settings': "Configurações",
+  'header.reports': "Relatórios",
+  'header.newScan': "Novo Print",
+  'header.camera': "Câmera",
+  'header.importJobs': "Importar Jobs",
+  'header.exit': "Sair",
+  'header.sign': "Assinar",
+  'header.saveExport': "Salvar & Exportar",
+  'header.exportPdf': "Exportar PDF",
+  'header.send': "Enviar",
+  'header.amend': "Emendar",
+
+  'error.exportSpreadsheet': "Falha ao exportar planilha.",
+  'error.noJobs': "Nenhum job encontrado no arquivo.",
+  'error.readJobs': "Falha ao ler o arquivo de jobs.",
+  'error.attachPhoto': "Falha ao anexar foto.",
+  'error.readFile': "Falha ao ler o arquivo.",
+  'error.queueScan': "Falha ao guardar o print na fila.",
+  'error.scanCapture': "Erro na captura do print: {message}",
+  'error.exportPdf': "Falha ao exportar PDF A4.",
+  'error.exportImage': "Falha ao exportar imagem A4.",
+  'error.prepareSend': "Falha ao preparar o envio.",
+  'error.send': "Falha ao enviar a timesheet.",
+  'error.amend': "Falha ao emendar a timesheet.",
+  'error.revisions': "Falha ao carregar as revisões.",
+
+  'banner.offlineQueued': "Sem conexão: o print está na fila e será lido automaticamente quando o sinal voltar. Preencha à mão enquanto isso; o que você digitar não será sobrescrito.",
+  'loading.processing': "Processando Inteligência...",
+
+  'edit.title': "Painel de Edição (Todos os Campos)",
+  'edit.revision': "Rev {n}",
+  'edit.lockedNotice': "Folha assinada: os campos estão travados. Use Emendar para alterar; a versão assinada fica guardada como revisão.",
+  'edit.signatureSvg': "Baixar assinatura (SVG):",
+  'edit.issueCount': "{errors} erro(s), {warnings} aviso(s)",
+  'edit.supervisorSection': "Supervisor & Horários",
+  'edit.labourSection': "Equipe & Horários",
+  'edit.resourcesSection': "Recursos & Insumos",
+  'edit.tippingSection': "Descarte (Tipping)",
+  'edit.confidenceRead': "lido",
+  'edit.confirmField': "Confirmar",
+
+  'field.client': "Cliente",
+  'field.jobNo': "Nº do Job",
+  'field.date': "Data",
+  'field.contactName': "Contato",
+  'field.phone': "Telefone/Celular",
+  'field.contactEmail': "E-mail do Contato",
+  'field.address': "Endereço da Obra",
+  'field.description': "Descrição da Tarefa",
+  'field.supervisorName': "Nome do Supervisor",
+  'field.start': "Início",
+  'field.finish': "Fim",
+  'field.travel': "Deslocamento",
+  'field.break': "Intervalo",
+  'field.total': "Total",
+  'field.breakPlaceholder': "0.5 ou 00:30",
+  'field.totalHint': "Calculado automaticamente: (Fim - Início) - Intervalo (+ Deslocamento)",
+  'field.includeTravel': "Incluir travel time no TOTAL (supervisor e labour)",
+  'field.supervisorAllowances': "Adicionais do Supervisor",
+  'field.allowancesPlaceholder': "Ex: Meal, Parking, etc",
+  'field.labourerName': "Nome do Trabalhador {n}",
+  'field.crewTotal': "Total da Equipe:",
+  'field.otherSlot': "Outro {n}",
+  'field.wasteTypes': "Tipos de Resíduo:",
+  'field.facilities': "Destinos:",
+  'field.otherFacility': "Nome do Outro Destino",
+  'field.notes': "Notas / Variações",
+  'field.clientRepName': "Nome do Representante do Cliente",
+  'field.supervisorSignature': "Assinatura do supervisor",
+  'field.clientSignature': "Assinatura do cliente",
+  'field.invalidated': "(invalidada)",
+
+  'validation.required': "Preencha: {label}",
+  'validation.empty': "Em branco: {label}",
+  'validation.email': "E-mail do contato \"{value}\" não parece válido",
+  'validation.who.supervisor': "Supervisor",
+  'validation.who.labourer': "Trabalhador {n}",
+  'validation.time.start': "horário de início",
+  'validation.time.finish': "horário de fim",
+  'validation.time.travel': "deslocamento",
+  'validation.time.break': "intervalo",
+  'validation.timeRequired': "{who}: preencha o {label}",
+  'validation.clock': "{who}: {label} \"{value}\" não é um horário válido (use 07:30)",
+  'validation.duration': "{who}: {label} \"{value}\" não é uma duração válida (use 0.5 ou 00:30)",
+  'validation.totalUnchecked': "{who}: total digitado à mão, não dá para conferir",
+  'validation.breakTooLong': "{who}: intervalo maior que o turno",
+  'validation.totalMismatch': "{who}: o total deveria ser {hours} h pelo início/fim/intervalo",
+  'validation.labourNoName': "Linha {n} da equipe tem horários mas não tem nome",
+  'validation.other': "Outro",
+  'validation.otherItem': "Outro item",
+  'validation.quantity': "Quantidade \"{value}\" de {item} não é um número",
+  'validation.otherNoDescription': "Outro item com quantidade mas sem descrição",
+  'validation.wasteWeight': "Peso do resíduo \"{value}\" não é um número",
+  'validation.wasteNoWeight': "Tipo de resíduo marcado sem peso registrado",
+  'validation.otherFacility': "Informe o nome do outro destino",
+  'validation.lowConfidence': "{label} foi lido com pouca confiança ({score}%), confirme",
+  'validation.signatureMissing': "Falta: {label}",
+  'validation.signatureInvalidated': "{label} invalidada: a folha foi editada depois de assinada",
+
+  'status.draft': "Rascunho",
+  'status.awaiting_signature': "Aguardando assinatura",
+  'status.signed': "Assinada",
+  'status.submitted': "Enviada",
+  'status.amended': "Emendada",
+
+  'exportErrors.title': "Timesheet com erros",
+  'exportErrors.fix': "Corrigir",
+  'exportErrors.exportAnyway': "Exportar mesmo assim",
+
+  'signing.title': "Assinaturas",
+  'signing.invalidated': "A folha foi alterada depois de assinada. Assine de novo para validar.",
+  'signing.signerPlaceholder': "Nome de quem assina",
+  'signing.clientRep': "Representante do Cliente",
+  'signing.supervisor': "Supervisor AES",
+  'signing.useSaved': "Assinar com a minha assinatura salva",
+  'signing.recordLocation': "Registrar localização (GPS) na assinatura",
+
+  'history.title': "Histórico de Timesheets",
+  'history.serial': "Serial",
+  'history.provisional': "era {serial}",
+  'history.from': "De",
+  'history.to': "Até",
+  'history.clearFilters': "Limpar filtros",
+  'history.selected': "{n} selecionado(s)",
+  'history.inFilter': "{n} no filtro",
+  'history.empty': "Nenhum timesheet encontrado.",
+
+  'jobImport.title': "Importar Job",
+  'jobImport.count': "{n} job(s)",
+  'jobImport.search': "Buscar por job no, cliente ou endereço",
+  'jobImport.empty': "Nenhum job encontrado.",
+  'jobImport.plannedItems': "{n} item(s) planejado(s)",
+
+  'revisions.title': "Revisões",
+  'revisions.open': "Revisões",
+  'revisions.current': "Atual",
+  'revisions.restore': "Restaurar",
+  'revisions.compare': "Comparar",
+  'revisions.noChanges': "Nenhuma diferença entre essas revisões.",
+  'revisions.section.header': "Cabeçalho",
+  'revisions.section.labour': "Equipe",
+  'revisions.section.items': "Quantidades",
+  'revisions.section.waste': "Descarte",
+  'revisions.section.signatures': "Assinaturas",
+
+  'drafts.title': "Rascunhos em andamento",
+  'drafts.job': "Job {job}",
+  'drafts.noJob': "Sem nº de job",
+  'drafts.count': "{n} folhas",
+  'drafts.untitled': "Folha sem cliente",
+  'drafts.notExported': "Ainda não exportada",
+  'drafts.unsavedChanges': "Alterações não salvas",
+  'drafts.resume': "Continuar",
+  'drafts.discard': "Descartar rascunho",
+
+  'scanQueue.title': "Prints na fila",
+  'scanQueue.processNow': "Processar agora",
+  'scanQueue.pending': "Aguardando conexão",
+  'scanQueue.failed': "Falhou",
+  'scanQueue.done': "Pronto",
+  'scanQueue.files': "{n} arquivo(s)",
+  'scanQueue.open': "Abrir",
+
+  'catalogue.title': "Catálogo de Materiais & Equipamentos",
+  'catalogue.restoreDefaults': "Restaurar padrão",
+  'catalogue.descriptionPlaceholder': "Descrição",
+  'catalogue.unitPlaceholder': "Unid.",
+  'catalogue.active': "Ativo",
+  'catalogue.addItem': "Adicionar item",
+
+  'sheetDate.title': "Data da Folha",
+  'sheetDate.hint': "Data carimbada nas folhas novas. Não depende do idioma do app.",
+  'sheetDate.locale': "Região",
+  'sheetDate.pattern': "Formato",
+  'sheetDate.preview': "Hoje: {date}",
+
+  'payroll.title': "Resumo da Folha de Pagamento",
+  'payroll.count': "{n} timesheet(s)",
+  'payroll.worker': "Trabalhador",
+  'payroll.week': "Semana",
+  'payroll.days': "Dias",
+  'payroll.jobs': "Jobs",
+  'payroll.normal': "Normal",
+  'payroll.overtime': "Hora extra",
+  'payroll.travel': "Deslocamento",
+  'payroll.total': "Total",
+  'payroll.allowances': "Adicionais",
+  'payroll.wholeWeeks': "Hora extra precisa da semana inteira: mostrando de {from} a {to} (segunda a domingo).",
+  'payroll.empty': "Nenhuma hora no período.",
+  'payroll.exportCsv': "Exportar CSV",
+
+  'profile.title': "Perfil do Supervisor",
+  'profile.firstAccess': "Primeiro acesso",
+  'profile.newProfile': "Novo perfil",
+  'profile.addProfile': "Adicionar perfil",
+  'profile.crew': "Equipe padrão (um nome por linha)",
+  'profile.savedSignature': "Assinatura salva",
+  'profile.noSignature': "Sem assinatura",
+  'profile.redoSignature': "Refazer",
+  'profile.sign': "Assinar",
+  'profile.remove': "Remover perfil",
+  'profile.saveAndUse': "Salvar & Usar",
+
+  'photos.title': "Fotos & Evidências",
+  'photos.takePhoto': "Tirar foto",
+  'photos.upload': "Enviar fotos",
+  'photos.empty': "Antes/depois, sacos de lixo, tickets da balança…",
+  'photos.captionPlaceholder': "Legenda",
+  'photos.includeInPdf': "Incluir fotos no PDF (anexo após a folha)",
+
+  'camera.title': "Escanear Job Card",
+  'camera.count': "{n} foto(s)",
+  'camera.alignGuide': "Alinhe o cartão na moldura",
+  'camera.unsupported': "Este navegador não dá acesso à câmera. Use o botão Novo Print.",
+  'camera.denied': "Sem permissão para a câmera. Libere o acesso ou use o botão Novo Print.",
+  'camera.captureFailed': "Falha ao capturar a foto.",
+  'camera.capture': "Capturar",
+  'camera.readOne': "Ler foto",
+  'camera.readMany': "Ler {n} fotos",
+
+  'send.title': "Enviar Timesheet",
+  'send.to': "Para:",
+  'send.subject': "Assunto:",
+  'send.attachment': "Anexo:",
+  'send.generating': "Gerando arquivo…",
+  'send.share': "Compartilhar (WhatsApp, e-mail…)",
+  'send.eml': "Rascunho .eml (com anexo)",
+  'send.mailto': "Abrir e-mail (mailto)",
+  'send.noFileShare': "Este navegador não compartilha arquivos. No mailto o arquivo é baixado para você anexar.",
+};
@@ -0,0 +1,127 @@
+import { parseCsv } from "./csv";
+
+export interface ImportedJob {
+  jobId: string;
+  client: string;
+  contactName: string;
+  contactNumber: string;
+  contactEmail: string;
+  address: string;
+  description: string;
+  items: { description: string; quantity: string }[];
+}
+
+type JobField = Exclude<keyof ImportedJob, 'items'>;
+
+// ✅ nomes de coluna aceitos (sem case/espaço/pontuação) -> campo do job
+const COLUMN_ALIASES: Record<string, JobField | 'item' | 'quantity' | 'items'> = {
+  jobid: 'jobId', jobno: 'jobId', job: 'jobId', jobnumber: 'jobId',
+  client: 'client', customer: 'client',
+  contactname: 'contactName', contact: 'contactName',
+  contactnumber: 'contactNumber', phone: 'contactNumber', telephone: 'contactNumber', mobile: 'contactNumber',
+  contactemail: 'contactEmail', email: 'contactEmail', emailaddress: 'contactEmail',
+  address: 'address', jobsiteaddress: 'address', siteaddress: 'address', site: 'address',
+  description: 'description', taskdescription: 'description', task: 'description',
+  item: 'item', material: 'item',
+  quantity: 'quantity', qty: 'quantity',
+  items: 'items', planneditems: 'items',
+};
+
+const normaliseKey = (key: string) => key.toLowerCase().replace(/[^a-z]/g, "");
+
+const emptyJob = (): ImportedJob => ({
+  jobId: "", client: "", contactName: "", contactNumber: "", contactEmail: "", address: "", description: "", items: [],
+});
+
+// "Asbestos bags: 10; Duct tape x2" -> itens
+const parseItemList = (value: string) =>
+  value
+    .split(/[;\n|]/)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const m = part.match(/^(.*?)\s*(?:[:=]|\bx)\s*([\d.,]+)\s*$/i);
+      return m ? { description: m[1].trim(), quantity: m[2] } : { description: part, quantity: "" };
+    });
+
+const parseItems = (value: unknown): ImportedJob['items'] => {
+  if (Array.isArray(value)) {
+    return value
+      .map((item: any) =>
+        typeof item === "string"
+          ? parseItemList(item)[0]
+          : { description: String(item?.description ?? item?.name ?? "").trim(), quantity: String(item?.quantity ?? item?.qty ?? "").trim() }
+      )
+      .filter(item => item?.description);
+  }
+  if (value && typeof value === "object") {
+    return Object.entries(value).map(([description, quantity]) => ({ description, quantity: String(quantity ?? "") }));
+  }
+  return typeof value === "string" ? parseItemList(value) : [];
+};
+
+const fromRecord = (record: Record<string, unknown>): ImportedJob => {
+  const job = emptyJob();
+  for (const [key, value] of Object.entries(record)) {
+    const field = COLUMN_ALIASES[normaliseKey(key)];
+    if (!field || field === 'item' || field === 'quantity') continue;
+    if (field === 'items') job.items = parseItems(value);
+    else job[field] = String(value ?? "").trim();
+  }
+  return job;
+};
+
+/**
+ * CSV: uma linha por job, ou várias linhas do mesmo Job No com as colunas
+ * Item/Quantity (uma por item planejado). Coluna "Items" também aceita
+ * "Asbestos bags: 10; Duct tape: 2".
+ */
+const parseJobsCsv = (text: string): ImportedJob[] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const fields = header.map(h => COLUMN_ALIASES[normaliseKey(h)]);
+
+  const jobs: ImportedJob[] = [];
+  const byJobId = new Map<string, ImportedJob>();
+
+  for (const row of rows) {
+    const record: Record<string, string> = {};
+    let item = "";
+    let quantity = "";
+    fields.forEach((field, i) => {
+      const value = (row[i] || "").trim();
+      if (field === 'item') item = value;
+      else if (field === 'quantity') quantity = value;
+      else if (field) record[field] = value;
+    });
+
+    const parsed = fromRecord(record);
+    const existing = parsed.jobId ? byJobId.get(parsed.jobId) : undefined;
+    const job = existing ?? parsed;
+    if (!existing) {
+      jobs.push(job);
+      if (job.jobId) byJobId.set(job.jobId, job);
+    } else {
+      // linhas seguintes do mesmo job só completam o que está vazio
+      (Object.keys(parsed) as (keyof ImportedJob)[]).forEach(key => {
+        if (key === 'items') job.items.push(...parsed.items);
+        else if (!job[key]) job[key] = parsed[key];
+      });
+    }
+    if (item) job.items.push({ description: item, quantity });
+  }
+
+  return jobs;
+};
+
+const parseJobsJson = (text: string): ImportedJob[] => {
+  const parsed = JSON.parse(text);
+  const list = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.jobs) ? parsed.jobs : [parsed];
+  return list.filter((r: unknown) => r && typeof r === "object").map(fromRecord);
+};
+
+export const parseJobsFile = (fileName: string, text: string): ImportedJob[] => {
+  const isJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(text);
+  const jobs = isJson ? parseJobsJson(text) : parseJobsCsv(text);
+  return jobs.filter(job => job.jobId || job.client || job.address);
+};
@@ -0,0 +1,427 @@
+import { jsPDF } from "jspdf";
+import { CatalogueItem, PhotoAttachment, SheetSerial, SignatureMetaMap, SignatureRole, SignatureVector, SignatureVectorMap, TimesheetData } from "../types";
+import { WASTE_FACILITIES, WASTE_TYPES } from "./timesheetModel";
+import { layoutResourceGrid, matchesCatalogueItem } from "./catalogueService";
+import { calculateCrewMinutes, minutesToHoursString } from "./timeEngine";
+import { readAsDataUrl } from "./imageUtils";
+import { signatureStamp } from "./signatureService";
+import { strokeBounds, strokeSegments } from "./signatureStrokes";
+
+export interface TimesheetPdfInput {
+  data: TimesheetData;
+  catalogue: CatalogueItem[];
+  serial: SheetSerial;
+  provisionalSerial?: string; // impresso offline antes do sync: sai ao lado do serial
+  logoDataUrl: string | null;
+  mySignature: string | null;
+  supervisorSignature: string | null;
+  photos?: PhotoAttachment[]; // ✅ anexo: páginas extras depois da folha A4
+  signatureMeta?: SignatureMetaMap;
+  signatureVectors?: SignatureVectorMap; // traço vetorial: nítido no PDF, no lugar do PNG
+  invalidSignatures?: SignatureRole[];
+}
+
+// ✅ A4 em mm, mesma margem do .paper-preview (12mm)
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 12;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+// px da tela -> mm (a folha na tela tem ~703px úteis para 186mm)
+const PX = CONTENT_WIDTH / 703;
+
+const NAVY: [number, number, number] = [0, 31, 92];
+const LABEL_FILL: [number, number, number] = [217, 225, 242];
+const SERIAL_RED: [number, number, number] = [220, 38, 38];
+const INK: [number, number, number] = [17, 24, 39];
+
+type CellOptions = {
+  fill?: boolean;
+  bold?: boolean;
+  italic?: boolean;
+  align?: "left" | "center" | "right";
+  fontSize?: number;
+  uppercase?: boolean;
+};
+
+const getQty = (data: TimesheetData, entry: CatalogueItem) =>
+  data.items.find(i => i.category !== 'other' && matchesCatalogueItem(entry, i.description))?.quantity || "";
+
+export const loadImageAsDataUrl = async (url: string): Promise<string | null> => {
+  try {
+    const res = await fetch(url);
+    if (!res.ok) return null;
+    return await readAsDataUrl(await res.blob());
+  } catch {
+    return null;
+  }
+};
+
+export const buildTimesheetPdf = ({
+  data, catalogue, serial, provisionalSerial, logoDataUrl, mySignature, supervisorSignature,
+  photos = [], signatureMeta = {}, signatureVectors = {}, invalidSignatures = [],
+}: TimesheetPdfInput): jsPDF => {
+  const doc = new jsPDF({ unit: "mm", format: "a4", orientation: "portrait" });
+  doc.setLineWidth(0.2);
+  doc.setDrawColor(0, 0, 0);
+
+  const setFont = (size: number, bold = false, italic = false) => {
+    const style = bold && italic ? "bolditalic" : bold ? "bold" : italic ? "italic" : "normal";
+    doc.setFont("helvetica", style);
+    doc.setFontSize(size);
+  };
+
+  // ✅ célula com borda, fundo opcional (label-fill) e texto de uma linha
+  const cell = (x: number, y: number, w: number, h: number, text: string, opts: CellOptions = {}) => {
+    if (opts.fill) {
+      doc.setFillColor(...LABEL_FILL);
+      doc.rect(x, y, w, h, "FD");
+    } else {
+      doc.rect(x, y, w, h, "S");
+    }
+    if (!text) return;
+
+    setFont(opts.fontSize ?? 6, opts.bold, opts.italic);
+    doc.setTextColor(0, 0, 0);
+    const value = opts.uppercase ? text.toUpperCase() : text;
+    const line = doc.splitTextToSize(value, w - 1.6)[0] ?? "";
+    const align = opts.align ?? "left";
+    const tx = align === "center" ? x + w / 2 : align === "right" ? x + w - 0.8 : x + 0.8;
+    doc.text(line, tx, y + h / 2, { baseline: "middle", align });
+  };
+
+  const checkbox = (x: number, y: number, checked: boolean) => {
+    const size = 2.6;
+    doc.setFillColor(255, 255, 255);
+    doc.rect(x, y, size, size, "FD");
+    if (checked) {
+      setFont(5.5, true);
+      doc.text("X", x + size / 2, y + size / 2, { baseline: "middle", align: "center" });
+    }
+  };
+
+  const image = (dataUrl: string, x: number, y: number, w: number, h: number) => {
+    try {
+      const props = doc.getImageProperties(dataUrl);
+      const ratio = Math.min(w / props.width, h / props.height);
+      const iw = props.width * ratio;
+      const ih = props.height * ratio;
+      doc.addImage(dataUrl, x + (w - iw) / 2, y + (h - ih) / 2, iw, ih);
+    } catch (err) {
+      console.error("PDF image error:", err);
+    }
+  };
+
+  // ✅ assinatura em curvas (quadrática -> cúbica), centralizada na área como o image()
+  const vectorSignature = (vector: SignatureVector, x: number, y: number, w: number, h: number) => {
+    const bounds = strokeBounds(vector.strokes);
+    if (!bounds) return;
+    const scale = Math.min(w / bounds.width, h / bounds.height);
+    const ox = x + (w - bounds.width * scale) / 2 - bounds.x * scale;
+    const oy = y + (h - bounds.height * scale) / 2 - bounds.y * scale;
+    const px = (p: { x: number; y: number }) => [ox + p.x * scale, oy + p.y * scale];
+
+    doc.setDrawColor(...INK);
+    doc.setLineCap("round");
+    doc.setLineJoin("round");
+    vector.strokes.forEach(stroke =>
+      strokeSegments(stroke).forEach(({ from, control, to, width }) => {
+        const [fx, fy] = px(from);
+        const [cx, cy] = px(control);
+        const [tx, ty] = px(to);
+        doc.setLineWidth(width * scale);
+        doc.lines(
+          [[(cx - fx) * 2 / 3, (cy - fy) * 2 / 3, tx - fx + (cx - tx) * 2 / 3, ty - fy + (cy - ty) * 2 / 3, tx - fx, ty - fy]],
+          fx, fy, [1, 1], "S", false
+        );
+      })
+    );
+    doc.setLineCap("butt");
+    doc.setLineJoin("miter");
+    doc.setLineWidth(0.2);
+    doc.setDrawColor(0, 0, 0);
+  };
+
+  let y = MARGIN;
+
+  // Header (logo + endereço)
+  if (logoDataUrl) image(logoDataUrl, MARGIN, y, 40, 14.8);
+  setFont(5.25);
+  doc.setTextColor(30, 41, 59);
+  doc.text(
+    [
+      "Address: 52, 49-51 Mitchell Road, Brookvale NSW 2100",
+      "Phone: 1300 237 287",
+      "Email: info@aesaus.com.au Website: www.aesaus.com.au",
+    ],
+    MARGIN + CONTENT_WIDTH,
+    y + 1.5,
+    { align: "right", baseline: "top" }
+  );
+  y += 17;
+
+  // Título + serial
+  setFont(13, true);
+  doc.setTextColor(...NAVY);
+  doc.text("PROJECT TIME SHEET", PAGE_WIDTH / 2, y + 3, { align: "center", baseline: "middle", charSpace: 0.8 });
+  doc.setFont("courier", "bold");
+  doc.setFontSize(18);
+  doc.setTextColor(...SERIAL_RED);
+  doc.text(String(serial), MARGIN + CONTENT_WIDTH, y + 3, { align: "right", baseline: "middle" });
+  if (provisionalSerial) {
+    const serialWidth = doc.getTextWidth(String(serial));
+    doc.setFontSize(7);
+    doc.setTextColor(100, 116, 139);
+    doc.text(`Prov. ${provisionalSerial}`, MARGIN + CONTENT_WIDTH - serialWidth - 2, y + 3, { align: "right", baseline: "middle" });
+  }
+  doc.setTextColor(0, 0, 0);
+  y += 8;
+
+  // Dados do cliente
+  const infoCols = [130 * PX, 0, 100 * PX, 0];
+  infoCols[1] = infoCols[3] = (CONTENT_WIDTH - infoCols[0] - infoCols[2]) / 2;
+  const infoX = [MARGIN, MARGIN + infoCols[0], MARGIN + infoCols[0] + infoCols[1], MARGIN + infoCols[0] + infoCols[1] + infoCols[2]];
+  const infoRow = 4.6;
+
+  const checkLabel = (col: number, label: string, checked: boolean) => {
+    cell(infoX[col], y, infoCols[col], infoRow, label, { fill: true, bold: true, italic: true });
+    checkbox(infoX[col] + infoCols[col] - 3.6, y + (infoRow - 2.6) / 2, checked);
+  };
+
+  cell(infoX[0], y, infoCols[0], infoRow, "CLIENT:", { fill: true, bold: true });
+  cell(infoX[1], y, infoCols[1], infoRow, data.client, { uppercase: true });
+  checkLabel(2, "QUOTED", data.quoted);
+  checkLabel(3, "RATES", data.rates);
+  y += infoRow;
+
+  const infoLines: [string, string, string, string, CellOptions][] = [
+    ["CONTACT NAME:", data.contactName, "DATE:", data.date, {}],
+    ["TELEPHONE/MOBILE:", data.contactNumber, "JOB NO:", data.jobId, { bold: true, uppercase: true }],
+    ["JOB SITE ADDRESS:", data.address, "CLIENT P/O NO:", data.clientPoNumber, {}],
+  ];
+  infoLines.forEach(([l1, v1, l2, v2, rightOpts]) => {
+    cell(infoX[0], y, infoCols[0], infoRow, l1, { fill: true, bold: true });
+    cell(infoX[1], y, infoCols[1], infoRow, v1, { uppercase: true });
+    cell(infoX[2], y, infoCols[2], infoRow, l2, { fill: true, bold: true });
+    cell(infoX[3], y, infoCols[3], infoRow, v2, rightOpts);
+    y += infoRow;
+  });
+
+  // Task description pode quebrar em várias linhas
+  setFont(6);
+  const descLines: string[] = doc.splitTextToSize((data.description || "").toUpperCase(), CONTENT_WIDTH - infoCols[0] - 1.6);
+  const descHeight = Math.max(infoRow, descLines.length * 2.4 + 1.6);
+  cell(infoX[0], y, infoCols[0], descHeight, "TASK DESCRIPTION:", { fill: true, bold: true });
+  doc.rect(infoX[1], y, CONTENT_WIDTH - infoCols[0], descHeight, "S");
+  setFont(6);
+  doc.text(descLines, infoX[1] + 0.8, y + 0.8, { baseline: "top", lineHeightFactor: 1.1 });
+  y += descHeight + 2.5;
+
+  // Time table
+  const timeCols = [200, 80, 80, 100, 80].map(v => v * PX);
+  timeCols.push(CONTENT_WIDTH - timeCols.reduce((a, b) => a + b, 0));
+  const timeRow = (values: string[], h: number, opts: CellOptions[] = []) => {
+    let x = MARGIN;
+    values.forEach((v, idx) => {
+      cell(x, y, timeCols[idx], h, v, { align: idx === 0 ? "left" : "center", ...opts[idx] });
+      x += timeCols[idx];
+    });
+    y += h;
+  };
+  const timeHeader = (first: string) =>
+    timeRow([first, "START TIME", "FINISH TIME", "+ TRAVEL TIME", "TOTAL", "ALLOWANCES (SPECIFY)"], 3.4,
+      Array(6).fill({ fill: true, bold: true, italic: true, fontSize: 5.5 }));
+
+  timeHeader("SUPERVISOR:");
+  timeRow(
+    [data.supervisorName, data.startTime, data.finishTime, data.travelTime, data.totalTime, data.supervisorAllowances],
+    5.2,
+    [{ bold: true, uppercase: true }, {}, {}, {}, { bold: true }, {}]
+  );
+  timeHeader("LABOUR:");
+  data.labour.forEach(row => {
+    timeRow(
+      [row.name, row.startTime, row.finishTime, row.travelTime, row.totalTime, row.allowances],
+      4.4,
+      [{ uppercase: true }, {}, {}, {}, { bold: true }, {}]
+    );
+  });
+
+  // Crew grand total
+  const crewLabelWidth = timeCols.slice(0, 4).reduce((a, b) => a + b, 0);
+  cell(MARGIN, y, crewLabelWidth, 4.4, "CREW TOTAL (HOURS):", { fill: true, bold: true, italic: true, align: "right", fontSize: 5.5 });
+  cell(MARGIN + crewLabelWidth, y, timeCols[4], 4.4, minutesToHoursString(calculateCrewMinutes(data)), { bold: true, align: "center" });
+  cell(MARGIN + crewLabelWidth + timeCols[4], y, timeCols[5], 4.4, "", { fill: true });
+  y += 4.4;
+  y += 2.5;
+
+  // Resources grid (mesma distribuição do catálogo usada na tela)
+  const grid = layoutResourceGrid(catalogue, data.items);
+  const otherItems = data.items.filter(i => i.category === 'other');
+  const resCol = CONTENT_WIDTH / grid.columns.length;
+  const resRow = 3.7;
+  const qtyWidth = 32 * PX;
+  grid.headers.forEach((label, idx) => {
+    const x = MARGIN + resCol * idx;
+    cell(x, y, resCol, resRow, label.toUpperCase(), { fill: true, bold: true, italic: true, fontSize: 5.25 });
+    if (!label) return;
+    setFont(5.25, true, true);
+    doc.text("QTY", x + resCol - 1, y + resRow / 2, { baseline: "middle", align: "right" });
+  });
+  y += resRow;
+
+  grid.columns.forEach((column, col) => {
+    const x = MARGIN + resCol * col;
+    column.forEach((gridCell, idx) => {
+      const rowY = y + idx * resRow;
+      if (gridCell.kind === 'section') {
+        cell(x, rowY, resCol, resRow, gridCell.label, { fill: true, bold: true, fontSize: 5.25 });
+        setFont(4.5, true);
+        doc.text("QTY", x + resCol - 1, rowY + resRow / 2, { baseline: "middle", align: "right" });
+      } else if (gridCell.kind === 'item') {
+        cell(x, rowY, resCol, resRow, gridCell.entry.name, { fontSize: 5.25 });
+        cell(x + resCol - qtyWidth, rowY, qtyWidth, resRow, getQty(data, gridCell.entry), { align: "center", fontSize: 5.25 });
+      } else if (gridCell.kind === 'other') {
+        const other = otherItems[gridCell.slot];
+        cell(x, rowY, resCol - qtyWidth, resRow, other?.description || "", { fontSize: 5.25 });
+        cell(x + resCol - qtyWidth, rowY, qtyWidth, resRow, other?.quantity || "", { align: "center", fontSize: 5.25 });
+      } else {
+        cell(x, rowY, resCol, resRow, "");
+      }
+    });
+  });
+  y += resRow * grid.rows + 2.5;
+
+  // Tipping
+  const tipLabel = 80 * PX;
+  const tipRow = 5.2;
+  cell(MARGIN, y, CONTENT_WIDTH, 3.6, "TIPPING", { fill: true, bold: true, italic: true, fontSize: 5.25 });
+  y += 3.6;
+
+  const checkRow = (label: string, options: string[], checked: string[], gap: number) => {
+    cell(MARGIN, y, tipLabel, tipRow, label, { fill: true, italic: true, bold: true, fontSize: 5.25 });
+    doc.rect(MARGIN + tipLabel, y, CONTENT_WIDTH - tipLabel, tipRow, "S");
+    let x = MARGIN + tipLabel + 2;
+    options.forEach(opt => {
+      checkbox(x, y + (tipRow - 2.6) / 2, checked.includes(opt));
+      setFont(5.25);
+      doc.text(opt, x + 3.6, y + tipRow / 2, { baseline: "middle" });
+      x += 3.6 + doc.getTextWidth(opt) + gap;
+      if (opt === "Other:") {
+        doc.text(data.waste.otherFacility, x - gap + 1, y + tipRow / 2, { baseline: "middle" });
+      }
+    });
+    y += tipRow;
+  };
+
+  checkRow("TYPE OF WASTE", WASTE_TYPES, data.waste.types, 4);
+
+  cell(MARGIN, y, tipLabel, tipRow, "WASTE", { fill: true, italic: true, bold: true, fontSize: 5.25 });
+  const kgWidth = (CONTENT_WIDTH - tipLabel) / 5;
+  data.waste.weightsKg.forEach((kg, idx) => {
+    const x = MARGIN + tipLabel + kgWidth * idx;
+    cell(x, y, kgWidth, tipRow, kg ? `${kg}  KG` : "KG", { align: "right", fontSize: 5.25, bold: !kg });
+  });
+  y += tipRow;
+
+  checkRow("WASTE FACILITY", WASTE_FACILITIES, data.waste.facilities, 6);
+  y += 2.5;
+
+  // Notes/Variations
+  const notesHeight = 17;
+  const notesLabel = 130 * PX;
+  cell(MARGIN, y, notesLabel, notesHeight, "NOTES/VARIATIONS", { fill: true, bold: true, italic: true, fontSize: 6.75 });
+  doc.rect(MARGIN + notesLabel, y, CONTENT_WIDTH - notesLabel, notesHeight, "S");
+  setFont(6);
+  const noteLines: string[] = doc.splitTextToSize((data.notes || "").toUpperCase(), CONTENT_WIDTH - notesLabel - 1.6);
+  doc.text(noteLines.slice(0, 6), MARGIN + notesLabel + 0.8, y + 0.8, { baseline: "top", lineHeightFactor: 1.1 });
+  y += notesHeight + 2.5;
+
+  // Assinaturas
+  const half = CONTENT_WIDTH / 2;
+  const sigLabel = 120 * PX;
+  const sigRow = 13.2;
+  const stampHeight = 3.4;
+  const sigRows: [number, string, string | null, string, SignatureRole | null][] = [
+    [0, "SUPERVISOR'S NAME:", null, data.supervisorName, null],
+    [0, "CLIENT REP NAME:", null, data.clientRepName, null],
+    [1, "SUPERVISOR'S SIGNATURE:", supervisorSignature, "", 'supervisor'],
+    [1, "CLIENT SIGNATURE:", mySignature, "", 'client'],
+  ];
+  sigRows.forEach(([col, label, signature, value, role], idx) => {
+    const x = MARGIN + half * col;
+    const rowY = y + sigRow * (idx % 2);
+    const meta = role && signature ? signatureMeta[role] : undefined;
+    cell(x, rowY, sigLabel, sigRow, label, { fill: true, bold: true, italic: true, fontSize: 6.75 });
+    cell(x + sigLabel, rowY, half - sigLabel, sigRow, value, { bold: true, uppercase: true, fontSize: 6.75 });
+    const vector = role && signature ? signatureVectors[role] : undefined;
+    const sigArea: [number, number, number, number] = [x + sigLabel + 1, rowY + 1, half - sigLabel - 2, sigRow - 2 - (meta ? stampHeight : 0)];
+    if (vector?.strokes.length) vectorSignature(vector, ...sigArea);
+    else if (signature) image(signature, ...sigArea);
+
+    // ✅ carimbo: quem/quando/GPS/hash da folha assinada
+    if (meta) {
+      const invalid = invalidSignatures.includes(role!);
+      setFont(3.5, invalid);
+      doc.setTextColor(...(invalid ? SERIAL_RED : [100, 116, 139] as [number, number, number]));
+      const stamp: string[] = doc.splitTextToSize(signatureStamp(meta, invalid), half - sigLabel - 1.6);
+      doc.text(stamp.slice(0, 2), x + sigLabel + 0.8, rowY + sigRow - stampHeight - 0.3, { baseline: "top", lineHeightFactor: 1.1 });
+      doc.setTextColor(0, 0, 0);
+    }
+  });
+  y += sigRow * 2 + 1.5;
+
+  setFont(5.25, true, true);
+  doc.setTextColor(100, 116, 139);
+  doc.text("WHITE - CUSTOMER COPY", MARGIN, y, { baseline: "top" });
+  doc.text("BLUE - OFFICE COPY", MARGIN + CONTENT_WIDTH, y, { baseline: "top", align: "right" });
+
+  // borda inferior azul da folha
+  doc.setFillColor(...NAVY);
+  doc.rect(0, PAGE_HEIGHT - 1.6, PAGE_WIDTH, 1.6, "F");
+
+  // Anexo de fotos: 2 x 3 por página, legenda + data/hora embaixo de cada uma
+  const PHOTOS_PER_PAGE = 6;
+  const photoW = (CONTENT_WIDTH - 6) / 2;
+  const photoH = 68;
+  const captionH = 12;
+  photos.forEach((photo, idx) => {
+    const slot = idx % PHOTOS_PER_PAGE;
+    if (slot === 0) {
+      doc.addPage();
+      setFont(11, true);
+      doc.setTextColor(...NAVY);
+      doc.text("PHOTO APPENDIX", MARGIN, MARGIN + 3, { baseline: "middle", charSpace: 0.6 });
+      doc.setFont("courier", "bold");
+      doc.setFontSize(14);
+      doc.setTextColor(...SERIAL_RED);
+      doc.text(String(serial), MARGIN + CONTENT_WIDTH, MARGIN + 3, { align: "right", baseline: "middle" });
+      setFont(6);
+      doc.setTextColor(30, 41, 59);
+      doc.text([data.client, data.jobId, data.date].filter(Boolean).join("  ·  ").toUpperCase(), MARGIN, MARGIN + 8, { baseline: "middle" });
+      doc.setFillColor(...NAVY);
+      doc.rect(0, PAGE_HEIGHT - 1.6, PAGE_WIDTH, 1.6, "F");
+    }
+
+    const x = MARGIN + (slot % 2) * (photoW + 6);
+    const top = MARGIN + 12 + Math.floor(slot / 2) * (photoH + captionH + 4);
+    doc.rect(x, top, photoW, photoH, "S");
+    image(photo.dataUrl, x + 1, top + 1, photoW - 2, photoH - 2);
+
+    setFont(5.25, true);
+    doc.setTextColor(100, 116, 139);
+    doc.text(`${idx + 1}. ${new Date(photo.takenAt).toLocaleString()}`, x, top + photoH + 2.5, { baseline: "middle" });
+    setFont(6);
+    doc.setTextColor(0, 0, 0);
+    const captionLines: string[] = doc.splitTextToSize(photo.caption || "", photoW);
+    doc.text(captionLines.slice(0, 3), x, top + photoH + 4.5, { baseline: "top", lineHeightFactor: 1.1 });
+  });
+
+  doc.setProperties({
+    title: `AES Project Time Sheet ${serial}`,
+    subject: [data.client, data.jobId].filter(Boolean).join(" - "),
+    creator: "AES Smart Form",
+  });
+
+  return doc;
+};
@@ -0,0 +1,66 @@
+import { SupervisorProfile, TimesheetData } from "../types";
+import { createLabourRow, newId } from "./timesheetModel";
+
+const PROFILES_KEY = 'aes_supervisor_profiles';
+const ACTIVE_PROFILE_KEY = 'aes_active_profile';
+
+export const createProfile = (name = ""): SupervisorProfile => ({
+  id: newId(),
+  name,
+  startTime: "08:00",
+  finishTime: "18:30",
+  breakTime: "",
+  signature: null,
+  signatureVector: null,
+  crew: [],
+});
+
+export const loadProfiles = (): SupervisorProfile[] => {
+  try {
+    const saved = localStorage.getItem(PROFILES_KEY);
+    if (saved) return JSON.parse(saved).map((p: SupervisorProfile) => ({ ...createProfile(), ...p }));
+  } catch (err) {
+    console.error("Profiles load error:", err);
+  }
+  return [];
+};
+
+export const saveProfiles = (profiles: SupervisorProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+export const loadActiveProfileId = (): string | null => localStorage.getItem(ACTIVE_PROFILE_KEY);
+
+export const saveActiveProfileId = (id: string | null) => {
+  if (id) localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+  else localStorage.removeItem(ACTIVE_PROFILE_KEY);
+};
+
+// ✅ perfil ativo; se o id salvo sumiu, cai no primeiro cadastrado
+export const getActiveProfile = (profiles: SupervisorProfile[] = loadProfiles()): SupervisorProfile | null => {
+  const id = loadActiveProfileId();
+  return profiles.find(p => p.id === id) ?? profiles[0] ?? null;
+};
+
+/**
+ * Preenche supervisor, horários e equipe padrão do perfil numa folha nova.
+ * Os TOTAL ficam para o timeEngine calcular.
+ */
+export const applyProfileDefaults = (data: TimesheetData, profile: SupervisorProfile | null): TimesheetData => {
+  if (!profile) return data;
+
+  const shift = { startTime: profile.startTime, finishTime: profile.finishTime, breakTime: profile.breakTime };
+  const labour = data.labour.map((row, i) => {
+    const name = profile.crew[i];
+    return name && !row.name.trim() ? { ...createLabourRow(), ...shift, name } : row;
+  });
+
+  return {
+    ...data,
+    ...shift,
+    supervisorName: profile.name,
+    travelTime: data.travelTime || "00:00",
+    totalTime: "",
+    labour,
+  };
+};
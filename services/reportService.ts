@@ -0,0 +1,181 @@
+import { SavedTimesheet } from "../types";
+import { parseSheetDate } from "./historyStore";
+import { calculateShiftMinutes, minutesToHoursString, parseToMinutes } from "./timeEngine";
+import { CsvCell } from "./csv";
+
+// ✅ regra de hora extra: acima de 8h no dia e acima de 38h na semana
+export interface OvertimeRules {
+  dailyNormalMinutes: number;
+  weeklyNormalMinutes: number;
+}
+
+export const DEFAULT_OVERTIME_RULES: OvertimeRules = {
+  dailyNormalMinutes: 8 * 60,
+  weeklyNormalMinutes: 38 * 60,
+};
+
+export interface PayrollRow {
+  worker: string;
+  weekStart: string; // segunda-feira, "2025-03-17"
+  days: number;
+  jobs: string[];
+  normalMinutes: number;
+  overtimeMinutes: number;
+  travelMinutes: number;
+  totalMinutes: number;
+  allowanceTotal: number;
+  allowances: string[];
+  unpricedAllowances: string[]; // sem valor claro: ficam só como nota, fora do total
+}
+
+type Shift = { startTime: string; finishTime: string; breakTime: string; travelTime: string; totalTime: string };
+
+type DayRecord = {
+  worker: string;
+  date: string;
+  jobs: Set<string>;
+  workMinutes: number;
+  travelMinutes: number;
+  allowances: string[];
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const toIsoDate = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+export const weekStartOf = (isoDate: string) => {
+  const [y, m, d] = isoDate.split('-').map(Number);
+  const date = new Date(y, m - 1, d);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return toIsoDate(date);
+};
+
+const weekEndOf = (isoDate: string) => {
+  const [y, m, d] = weekStartOf(isoDate).split('-').map(Number);
+  return toIsoDate(new Date(y, m - 1, d + 6));
+};
+
+export const currentWeekRange = (today = new Date()) => {
+  const from = weekStartOf(toIsoDate(today));
+  return { dateFrom: from, dateTo: weekEndOf(from) };
+};
+
+// ✅ hora extra semanal precisa da semana inteira: o período vai de segunda a domingo
+export const wholeWeeks = <T extends { dateFrom?: string; dateTo?: string }>(filter: T): T => ({
+  ...filter,
+  dateFrom: filter.dateFrom ? weekStartOf(filter.dateFrom) : filter.dateFrom,
+  dateTo: filter.dateTo ? weekEndOf(filter.dateTo) : filter.dateTo,
+});
+
+const sheetDate = (entry: SavedTimesheet) => parseSheetDate(entry.data.date, entry.data.dateFormat) ?? toIsoDate(new Date(entry.timestamp));
+
+// horas trabalhadas sem a viagem; se não der para calcular usa o TOTAL digitado
+const workMinutes = (shift: Shift, includeTravel: boolean) => {
+  const calculated = calculateShiftMinutes(shift, false);
+  if (calculated !== null) return calculated;
+  const typed = parseToMinutes(shift.totalTime || "") ?? 0;
+  return includeTravel ? Math.max(0, typed - (parseToMinutes(shift.travelTime || "") ?? 0)) : typed;
+};
+
+/**
+ * Valor de um adicional: os "$15" do texto somados ("Meal $15, parking $10"
+ * = 25), ou o texto inteiro se for só um número ("15.50"). Qualquer outra
+ * coisa ("2x meal") é ambígua: `null`, fica só como nota.
+ */
+export const allowanceAmount = (value: string): number | null => {
+  const dollars = value.match(/\$\s*\d+(?:[.,]\d{1,2})?(?!\d)/g);
+  if (dollars) return dollars.reduce((sum, d) => sum + Number(d.replace(/[$\s]/g, "").replace(",", ".")), 0);
+  const plain = value.trim().match(/^\d+(?:[.,]\d{1,2})?$/);
+  return plain ? Number(plain[0].replace(",", ".")) : null;
+};
+
+/**
+ * Junta as folhas diárias por trabalhador (supervisor + labourers) e semana.
+ * Hora extra diária primeiro; depois o que passar do limite semanal
+ * entre as horas normais também vira extra.
+ */
+export const buildPayrollReport = (
+  entries: SavedTimesheet[],
+  rules: OvertimeRules = DEFAULT_OVERTIME_RULES
+): PayrollRow[] => {
+  const days = new Map<string, DayRecord>();
+
+  const add = (name: string, date: string, jobId: string, shift: Shift, includeTravel: boolean, allowance: string) => {
+    const worker = name.trim().toUpperCase();
+    if (!worker) return;
+    const key = `${worker}|${date}`;
+    const day = days.get(key) ?? { worker, date, jobs: new Set<string>(), workMinutes: 0, travelMinutes: 0, allowances: [] };
+    if (jobId.trim()) day.jobs.add(jobId.trim());
+    day.workMinutes += workMinutes(shift, includeTravel);
+    day.travelMinutes += parseToMinutes(shift.travelTime || "") ?? 0;
+    if (allowance.trim()) day.allowances.push(allowance.trim());
+    days.set(key, day);
+  };
+
+  for (const entry of entries) {
+    const { data } = entry;
+    const date = sheetDate(entry);
+    add(data.supervisorName, date, data.jobId, data, data.includeTravel, data.supervisorAllowances);
+    data.labour.forEach(row => add(row.name, date, data.jobId, row, data.includeTravel, row.allowances));
+  }
+
+  const weeks = new Map<string, PayrollRow>();
+  const sortedDays = Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date));
+
+  for (const day of sortedDays) {
+    const weekStart = weekStartOf(day.date);
+    const key = `${day.worker}|${weekStart}`;
+    const row = weeks.get(key) ?? {
+      worker: day.worker, weekStart, days: 0, jobs: [], normalMinutes: 0, overtimeMinutes: 0,
+      travelMinutes: 0, totalMinutes: 0, allowanceTotal: 0, allowances: [], unpricedAllowances: [],
+    };
+
+    let normal = Math.min(day.workMinutes, rules.dailyNormalMinutes);
+    let overtime = day.workMinutes - normal;
+    const weeklyLeft = Math.max(0, rules.weeklyNormalMinutes - row.normalMinutes);
+    if (normal > weeklyLeft) {
+      overtime += normal - weeklyLeft;
+      normal = weeklyLeft;
+    }
+
+    row.days += 1;
+    row.jobs = Array.from(new Set([...row.jobs, ...day.jobs]));
+    row.normalMinutes += normal;
+    row.overtimeMinutes += overtime;
+    row.travelMinutes += day.travelMinutes;
+    row.totalMinutes += day.workMinutes;
+    day.allowances.forEach(a => {
+      const amount = allowanceAmount(a);
+      if (amount === null) row.unpricedAllowances.push(a);
+      else row.allowanceTotal += amount;
+    });
+    row.allowances.push(...day.allowances);
+    weeks.set(key, row);
+  }
+
+  return Array.from(weeks.values()).sort((a, b) => a.weekStart.localeCompare(b.weekStart) || a.worker.localeCompare(b.worker));
+};
+
+// ✅ filtro de obra depois do cálculo: a hora extra semanal conta as horas de todas as obras
+export const rowsForJob = (rows: PayrollRow[], jobId?: string) => {
+  const job = (jobId || "").trim().toLowerCase();
+  return job ? rows.filter(row => row.jobs.some(j => j.toLowerCase().includes(job))) : rows;
+};
+
+export const PAYROLL_HEADERS = ['Worker', 'Week starting', 'Days', 'Jobs', 'Normal h', 'Overtime h', 'Travel h', 'Total h', 'Allowances', 'Allowance notes'];
+
+export const payrollCsvRows = (rows: PayrollRow[]): CsvCell[][] => [
+  PAYROLL_HEADERS,
+  ...rows.map(r => [
+    r.worker,
+    r.weekStart,
+    r.days,
+    r.jobs.join(' '),
+    minutesToHoursString(r.normalMinutes),
+    minutesToHoursString(r.overtimeMinutes),
+    minutesToHoursString(r.travelMinutes),
+    minutesToHoursString(r.totalMinutes),
+    r.allowanceTotal ? r.allowanceTotal.toFixed(2) : "",
+    r.allowances.join('; '),
+  ]),
+];
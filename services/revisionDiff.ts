@@ -0,0 +1,81 @@
+import { SavedTimesheet, SignatureRole, TimesheetData } from "../types";
+import { SIGNATURE_ROLES } from "./signatureService";
+
+export type DiffSection = 'header' | 'labour' | 'items' | 'waste' | 'signatures';
+
+export interface FieldChange {
+  section: DiffSection;
+  field: string;
+  before: string;
+  after: string;
+}
+
+// rótulos iguais aos da folha impressa
+const HEADER_FIELDS: [keyof TimesheetData, string][] = [
+  ['client', 'Client'], ['jobId', 'Job No'], ['date', 'Date'], ['contactName', 'Contact Name'],
+  ['contactNumber', 'Telephone/Mobile'], ['contactEmail', 'Contact Email'], ['address', 'Job Site Address'],
+  ['clientPoNumber', 'Client P/O No'], ['description', 'Task Description'], ['quoted', 'Quoted'], ['rates', 'Rates'],
+  ['supervisorName', 'Supervisor'], ['startTime', 'Start Time'], ['finishTime', 'Finish Time'], ['travelTime', 'Travel Time'],
+  ['breakTime', 'Break'], ['totalTime', 'Total'], ['includeTravel', 'Travel in TOTAL'],
+  ['supervisorAllowances', 'Supervisor Allowances'], ['clientRepName', 'Client Rep Name'], ['notes', 'Notes/Variations'],
+];
+
+const LABOUR_FIELDS: [keyof TimesheetData['labour'][number], string][] = [
+  ['name', 'Name'], ['startTime', 'Start'], ['finishTime', 'Finish'], ['travelTime', 'Travel'],
+  ['breakTime', 'Break'], ['totalTime', 'Total'], ['allowances', 'Allowances'],
+];
+
+const SIGNATURE_LABELS: Record<SignatureRole, string> = { supervisor: "Supervisor's signature", client: 'Client signature' };
+
+const show = (value: unknown) =>
+  typeof value === 'boolean' ? (value ? 'X' : '') : Array.isArray(value) ? value.filter(Boolean).join(", ") : String(value ?? "").trim();
+
+/**
+ * Diferenças campo a campo entre duas revisões (antes -> depois): cabeçalho,
+ * linhas de labour, quantidades, tipping e assinaturas. Linha vazia nos dois
+ * lados não conta; itens casam pela descrição, não pelo id.
+ */
+export const diffRevisions = (before: SavedTimesheet, after: SavedTimesheet): FieldChange[] => {
+  const changes: FieldChange[] = [];
+  const add = (section: DiffSection, field: string, a: unknown, b: unknown) => {
+    const [from, to] = [show(a), show(b)];
+    if (from !== to) changes.push({ section, field, before: from, after: to });
+  };
+
+  HEADER_FIELDS.forEach(([key, label]) => add('header', label, before.data[key], after.data[key]));
+
+  const rows = Math.max(before.data.labour.length, after.data.labour.length);
+  for (let i = 0; i < rows; i++) {
+    const [a, b] = [before.data.labour[i], after.data.labour[i]];
+    const who = show(b?.name) || show(a?.name) || `#${i + 1}`;
+    LABOUR_FIELDS.forEach(([key, label]) => add('labour', `${who} · ${label}`, a?.[key], b?.[key]));
+  }
+
+  const quantities = (data: TimesheetData) =>
+    new Map(data.items.filter(i => i.description.trim()).map(i => [`${i.category}:${i.description.trim().toLowerCase()}`, i]));
+  const [qa, qb] = [quantities(before.data), quantities(after.data)];
+  new Set([...qa.keys(), ...qb.keys()]).forEach(key => {
+    const [a, b] = [qa.get(key), qb.get(key)];
+    add('items', (b ?? a)!.description, a?.quantity, b?.quantity);
+  });
+
+  add('waste', 'Type of Waste', before.data.waste.types, after.data.waste.types);
+  add('waste', 'Waste (KG)', before.data.waste.weightsKg, after.data.waste.weightsKg);
+  add('waste', 'Waste Facility', before.data.waste.facilities, after.data.waste.facilities);
+  add('waste', 'Other Facility', before.data.waste.otherFacility, after.data.waste.otherFacility);
+
+  // assinatura: quem/quando assinou; imagem trocada sem carimbo também conta
+  const image = (entry: SavedTimesheet, role: SignatureRole) => (role === 'client' ? entry.mySignature : entry.supervisorSignature);
+  const signature = (entry: SavedTimesheet, role: SignatureRole) => {
+    const meta = entry.signatureMeta?.[role];
+    if (!image(entry, role)) return "";
+    return meta ? `${meta.signerName || "-"} · ${new Date(meta.signedAt).toLocaleString()}` : "Signed";
+  };
+  SIGNATURE_ROLES.forEach(role => {
+    const [a, b] = [signature(before, role), signature(after, role)];
+    const redrawn = a && a === b && image(before, role) !== image(after, role);
+    add('signatures', SIGNATURE_LABELS[role], a, redrawn ? `${b} (new image)` : b);
+  });
+
+  return changes;
+};
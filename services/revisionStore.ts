@@ -0,0 +1,27 @@
+import { SavedTimesheet } from "../types";
+import { REVISIONS_STORE, openDatabase, requestToPromise, transactionDone } from "./historyStore";
+import { isLockedStatus, statusOf, transitionStatus } from "./statusService";
+
+// ✅ revisão substituída fica guardada como estava (chave: id + revision); travada vira "amended"
+export const archiveRevision = async (entry: SavedTimesheet) => {
+  const replaced = isLockedStatus(statusOf(entry)) ? transitionStatus(entry, 'amended') : entry;
+  const db = await openDatabase();
+  const tx = db.transaction(REVISIONS_STORE, 'readwrite');
+  tx.objectStore(REVISIONS_STORE).put({ ...replaced, revision: entry.revision ?? 1 });
+  await transactionDone(tx);
+};
+
+export const listRevisions = async (id: string): Promise<SavedTimesheet[]> => {
+  const db = await openDatabase();
+  const revisions = await requestToPromise<SavedTimesheet[]>(
+    db.transaction(REVISIONS_STORE).objectStore(REVISIONS_STORE).index('id').getAll(id)
+  );
+  return revisions.sort((a, b) => (a.revision ?? 1) - (b.revision ?? 1));
+};
+
+export const deleteRevisions = async (id: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction(REVISIONS_STORE, 'readwrite');
+  tx.objectStore(REVISIONS_STORE).delete(IDBKeyRange.bound([id, 0], [id, Infinity]));
+  await transactionDone(tx);
+};
@@ -0,0 +1,99 @@
+import { QueuedScan, TimesheetData } from "../types";
+import { SCAN_QUEUE_STORE, openDatabase, requestToPromise, transactionDone } from "./historyStore";
+import { NetworkError, extractTimesheetData } from "./geminiService";
+import { newId } from "./timesheetModel";
+
+const putScan = async (scan: QueuedScan) => {
+  const db = await openDatabase();
+  const tx = db.transaction(SCAN_QUEUE_STORE, 'readwrite');
+  tx.objectStore(SCAN_QUEUE_STORE).put(scan);
+  await transactionDone(tx);
+};
+
+export const enqueueScan = async (images: string[]): Promise<QueuedScan> => {
+  const scan: QueuedScan = { id: newId(), images, createdAt: Date.now(), status: 'pending' };
+  await putScan(scan);
+  return scan;
+};
+
+export const listQueuedScans = async (): Promise<QueuedScan[]> => {
+  const db = await openDatabase();
+  return requestToPromise<QueuedScan[]>(
+    db.transaction(SCAN_QUEUE_STORE).objectStore(SCAN_QUEUE_STORE).index('createdAt').getAll()
+  );
+};
+
+export const removeQueuedScan = async (id: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction(SCAN_QUEUE_STORE, 'readwrite');
+  tx.objectStore(SCAN_QUEUE_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+// ✅ falha de rede (o fetch da extração rejeitou) vs erro da API ou ao ler a resposta
+export const isNetworkError = (err: unknown) => err instanceof NetworkError;
+
+let running: Promise<QueuedScan[]> | null = null;
+
+/**
+ * Roda a extração dos prints pendentes (e dos que falharam por erro da API).
+ * Para no primeiro erro de rede: o resto espera o próximo `online`.
+ * Retorna os scans que ficaram prontos nesta rodada.
+ */
+export const processScanQueue = (): Promise<QueuedScan[]> => {
+  if (running) return running;
+
+  running = (async () => {
+    const done: QueuedScan[] = [];
+    for (const scan of await listQueuedScans()) {
+      if (scan.status === 'done') continue;
+      try {
+        const result = await extractTimesheetData(scan.images);
+        const ready: QueuedScan = { ...scan, status: 'done', result, error: undefined };
+        await putScan(ready);
+        done.push(ready);
+      } catch (err: any) {
+        if (isNetworkError(err)) break;
+        await putScan({ ...scan, status: 'failed', error: String(err?.message || err) });
+      }
+    }
+    return done;
+  })().finally(() => {
+    running = null;
+  });
+
+  return running;
+};
+
+const isBlank = (value: unknown) => !String(value ?? "").trim();
+
+const HEADER_FIELDS: (keyof TimesheetData)[] = ['client', 'contactName', 'contactNumber', 'contactEmail', 'address', 'jobId', 'description', 'clientRepName'];
+
+/**
+ * Junta o resultado do scan na folha que o supervisor já preencheu à mão:
+ * só completa campos vazios e itens sem quantidade; o que foi digitado vence.
+ */
+export const fillFromScan = (current: TimesheetData, scanned: TimesheetData): TimesheetData => {
+  const next: TimesheetData = { ...current, confidence: { ...(current.confidence || {}) } };
+
+  for (const field of HEADER_FIELDS) {
+    if (isBlank(current[field]) && !isBlank(scanned[field])) {
+      (next as any)[field] = scanned[field];
+      const confidence = scanned.confidence?.[field];
+      if (confidence) next.confidence![field] = confidence;
+    }
+  }
+
+  const items = [...current.items];
+  for (const item of scanned.items) {
+    const existing = items.find(i => i.category === item.category && i.description.toLowerCase() === item.description.toLowerCase());
+    if (existing && !isBlank(existing.quantity)) continue;
+    if (existing) items[items.indexOf(existing)] = { ...existing, quantity: item.quantity };
+    else items.push(item);
+    const confidence = scanned.confidence?.[`items.${item.id}`];
+    if (confidence) next.confidence![`items.${existing?.id ?? item.id}`] = confidence;
+  }
+  next.items = items;
+
+  return next;
+};
@@ -0,0 +1,97 @@
+import { SheetSerial } from "../types";
+import { newId } from "./timesheetModel";
+
+const DEVICE_KEY = 'aes_device_id';
+const POOL_KEY = 'aes_serial_pool';
+const LEGACY_SERIAL_KEY = 'aes_timesheet_serial';
+const PROVISIONAL_KEY = 'aes_provisional_serial';
+const LOW_WATER = 5;
+
+// faixa reservada no servidor: `next` é o próximo serial livre dela
+type SerialRange = { next: number; end: number };
+
+export const getDeviceId = () => {
+  let id = localStorage.getItem(DEVICE_KEY);
+  if (!id) {
+    id = newId();
+    localStorage.setItem(DEVICE_KEY, id);
+  }
+  return id;
+};
+
+const loadPool = (): SerialRange[] => JSON.parse(localStorage.getItem(POOL_KEY) || "[]");
+
+const savePool = (pool: SerialRange[]) => {
+  localStorage.setItem(POOL_KEY, JSON.stringify(pool.filter(r => r.next <= r.end)));
+};
+
+const remaining = (pool: SerialRange[]) => pool.reduce((sum, r) => sum + r.end - r.next + 1, 0);
+
+const requestBlock = async (): Promise<SerialRange> => {
+  // ✅ o contador antigo do aparelho vira o mínimo, para não repetir serials já usados
+  const legacy = Number(localStorage.getItem(LEGACY_SERIAL_KEY)) || 0;
+  const res = await fetch("/api/serials", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ deviceId: getDeviceId(), minimum: legacy }),
+  });
+  if (!res.ok) {
+    const txt = await res.text();
+    throw new Error(txt || `HTTP ${res.status}`);
+  }
+  const { start, end } = await res.json();
+  localStorage.removeItem(LEGACY_SERIAL_KEY);
+  return { next: start, end };
+};
+
+// ✅ reserva uma faixa nova quando a atual está acabando (chamar com internet)
+let refilling: Promise<void> | null = null;
+
+export const ensureSerialPool = (): Promise<void> => {
+  if (refilling || remaining(loadPool()) >= LOW_WATER) return refilling ?? Promise.resolve();
+  refilling = requestBlock()
+    // relê o pool: pode ter saído serial enquanto o pedido estava no ar
+    .then(block => savePool([...loadPool(), block]))
+    .finally(() => { refilling = null; });
+  return refilling;
+};
+
+/**
+ * Próximo serial da faixa reservada (funciona offline); só pede outra ao
+ * servidor quando não sobrou nenhum. `null` = sem faixa e sem conexão.
+ */
+export const allocateReservedSerial = async (): Promise<number | null> => {
+  if (remaining(loadPool()) === 0) {
+    try {
+      await ensureSerialPool();
+    } catch (err) {
+      console.error("Serial block error:", err);
+    }
+  }
+
+  const pool = loadPool();
+  if (remaining(pool) === 0) return null;
+
+  const serial = pool[0].next;
+  pool[0] = { ...pool[0], next: serial + 1 };
+  savePool(pool);
+
+  ensureSerialPool().catch(err => console.warn("Serial prefetch skipped:", err));
+  return serial;
+};
+
+export const isProvisionalSerial = (serial: SheetSerial): serial is string => typeof serial === 'string';
+
+// ✅ aparelho novo e offline: "P-<aparelho>-<n>", único por aparelho, trocado no próximo sync
+const provisionalSerial = () => {
+  const n = (Number(localStorage.getItem(PROVISIONAL_KEY)) || 0) + 1;
+  localStorage.setItem(PROVISIONAL_KEY, String(n));
+  return `P-${getDeviceId().replace(/[^A-Za-z0-9]/g, "").slice(0, 6).toUpperCase()}-${n}`;
+};
+
+// serial de uma folha nova: o da faixa, senão um provisório (exportar nunca trava por falta de sinal)
+export const allocateSerial = async (): Promise<SheetSerial> =>
+  (await allocateReservedSerial()) ?? provisionalSerial();
+
+export const compareSerials = (a: SheetSerial, b: SheetSerial) =>
+  String(a).localeCompare(String(b), undefined, { numeric: true });
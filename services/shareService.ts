@@ -0,0 +1,98 @@
+import { SheetSerial, TimesheetData } from "../types";
+import { downloadBlob } from "./csv";
+import { isEmail } from "./validationService";
+
+// ✅ cópia do escritório em todo envio (mesmo e-mail do cabeçalho da folha)
+export const OFFICE_EMAIL = "info@aesaus.com.au";
+
+export interface ShareDraft {
+  to: string[];
+  subject: string;
+  body: string;
+}
+
+export const buildShareDraft = (data: TimesheetData, serial: SheetSerial): ShareDraft => {
+  const to = [data.contactEmail.trim(), OFFICE_EMAIL].filter(isEmail);
+  const subject = ["AES Timesheet", data.jobId && `Job ${data.jobId}`, data.client, data.date]
+    .filter(Boolean)
+    .join(" - ");
+  const body = [
+    `Hi ${data.contactName.trim() || "there"},`,
+    "",
+    `Please find attached timesheet #${serial}${data.jobId ? ` for job ${data.jobId}` : ""}${data.address ? ` at ${data.address}` : ""}${data.date ? ` on ${data.date}` : ""}.`,
+    "",
+    "Regards,",
+    data.supervisorName || "AES Supervisor",
+    "Absolute Environmental Services",
+  ].join("\n");
+  return { to: Array.from(new Set(to)), subject, body };
+};
+
+// Web Share com arquivo: celulares (WhatsApp, e-mail, Drive...); desktop quase nunca
+export const canShareFiles = () => {
+  try {
+    return !!navigator.canShare?.({ files: [new File([""], "timesheet.jpg", { type: "image/jpeg" })] });
+  } catch {
+    return false;
+  }
+};
+
+export const shareFile = (file: File, draft: ShareDraft) =>
+  navigator.share({ files: [file], title: draft.subject, text: draft.body });
+
+// usuário fechou a folha de compartilhar: não é erro
+export const isShareCancelled = (err: unknown) => err instanceof DOMException && err.name === "AbortError";
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// cabeçalho com acento: =?UTF-8?B?...?=
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${toBase64(new TextEncoder().encode(value))}?=`;
+
+const wrap76 = (value: string) => value.match(/.{1,76}/g)?.join("\r\n") ?? "";
+
+/**
+ * Rascunho .eml com o arquivo anexado. X-Unsent faz o Outlook/Mail abrir
+ * como e-mail novo, pronto para enviar.
+ */
+export const buildEmlDraft = async (file: File, draft: ShareDraft): Promise<Blob> => {
+  const boundary = `aes-${Date.now().toString(36)}`;
+  const attachment = wrap76(toBase64(new Uint8Array(await file.arrayBuffer())));
+  const lines = [
+    `To: ${draft.to.join(", ")}`,
+    `Subject: ${encodeHeader(draft.subject)}`,
+    "X-Unsent: 1",
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    'Content-Type: text/plain; charset="utf-8"',
+    "Content-Transfer-Encoding: base64",
+    "",
+    wrap76(toBase64(new TextEncoder().encode(draft.body))),
+    "",
+    `--${boundary}`,
+    `Content-Type: ${file.type || "application/octet-stream"}; name="${file.name}"`,
+    `Content-Disposition: attachment; filename="${file.name}"`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    attachment,
+    "",
+    `--${boundary}--`,
+    "",
+  ];
+  return new Blob([lines.join("\r\n")], { type: "message/rfc822" });
+};
+
+export const downloadEmlDraft = async (file: File, draft: ShareDraft) =>
+  downloadBlob(await buildEmlDraft(file, draft), file.name.replace(/\.[^.]+$/, "") + ".eml");
+
+// mailto não anexa arquivo: o app baixa o arquivo antes e o corpo avisa
+export const mailtoUrl = (draft: ShareDraft) =>
+  `mailto:${draft.to.map(encodeURIComponent).join(",")}?subject=${encodeURIComponent(draft.subject)}&body=${encodeURIComponent(`${draft.body}\n\n(Attach the downloaded file before sending.)`)}`;
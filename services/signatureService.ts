@@ -0,0 +1,96 @@
+import { GeoPoint, LabourRow, SignatureMeta, SignatureMetaMap, SignatureRole, TimesheetData } from "../types";
+
+const GPS_TIMEOUT_MS = 8000;
+
+export const SIGNATURE_ROLES: SignatureRole[] = ['supervisor', 'client'];
+
+// JSON com chaves ordenadas: o mesmo conteúdo sempre gera o mesmo hash
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+// ✅ versão do que a assinatura cobre; campo novo no modelo só entra numa versão nova
+export const SIGNATURE_HASH_VERSION = 1;
+
+const SIGNED_HEADER_FIELDS: (keyof TimesheetData)[] = [
+  'jobId', 'date', 'client', 'clientPoNumber', 'contactName', 'contactNumber', 'contactEmail', 'address',
+  'description', 'quoted', 'rates', 'supervisorName', 'clientRepName', 'startTime', 'finishTime', 'travelTime',
+  'breakTime', 'totalTime', 'includeTravel', 'supervisorAllowances', 'notes',
+];
+
+const SIGNED_LABOUR_FIELDS: (keyof LabourRow)[] = ['name', 'startTime', 'finishTime', 'travelTime', 'breakTime', 'totalTime', 'allowances'];
+
+/**
+ * O que entra no hash. v1: lista fixa de campos (cabeçalho, labour, itens,
+ * tipping), sem `version` nem defaults de migração. v0: assinaturas antigas,
+ * sem `hashVersion` — a folha inteira menos a confiança, como era antes do
+ * contactEmail (vazio fica de fora).
+ */
+const signedContent = (data: TimesheetData, version: number): unknown => {
+  if (version === 0) {
+    const { confidence, contactEmail, ...rest } = data;
+    return contactEmail ? { ...rest, contactEmail } : rest;
+  }
+  return {
+    header: SIGNED_HEADER_FIELDS.map(key => data[key]),
+    labour: data.labour.map(row => SIGNED_LABOUR_FIELDS.map(key => row[key])),
+    items: data.items.map(item => [item.category, item.description, item.quantity, item.unit ?? ""]),
+    waste: [data.waste.types, data.waste.weightsKg, data.waste.facilities, data.waste.otherFacility],
+  };
+};
+
+/**
+ * SHA-256 do conteúdo assinado. A confiança da IA fica de fora: confirmar
+ * um campo não muda o que foi assinado.
+ */
+export const hashTimesheetData = async (data: TimesheetData, version = SIGNATURE_HASH_VERSION): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(canonicalJson(signedContent(data, version))));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+};
+
+// ✅ GPS é opcional: sem permissão/sinal a assinatura vale do mesmo jeito
+export const getSignatureLocation = (): Promise<GeoPoint | null> =>
+  new Promise(resolve => {
+    if (!navigator.geolocation) return resolve(null);
+    navigator.geolocation.getCurrentPosition(
+      pos => resolve({ lat: pos.coords.latitude, lng: pos.coords.longitude, accuracy: Math.round(pos.coords.accuracy) }),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: GPS_TIMEOUT_MS, maximumAge: 60000 }
+    );
+  });
+
+export const createSignatureMeta = async (data: TimesheetData, signerName: string): Promise<SignatureMeta> => ({
+  signerName: signerName.trim(),
+  signedAt: Date.now(),
+  dataHash: await hashTimesheetData(data),
+  hashVersion: SIGNATURE_HASH_VERSION,
+});
+
+// ✅ assinatura cujo hash (na versão em que foi feita) não bate com a folha atual = editada depois de assinar
+export const invalidSignatureRoles = async (data: TimesheetData, meta: SignatureMetaMap | undefined): Promise<SignatureRole[]> => {
+  const invalid: SignatureRole[] = [];
+  for (const role of SIGNATURE_ROLES) {
+    const signed = meta?.[role];
+    if (signed && signed.dataHash !== await hashTimesheetData(data, signed.hashVersion ?? 0)) invalid.push(role);
+  }
+  return invalid;
+};
+
+/** Linha impressa junto da assinatura no PDF/JPG. */
+export const signatureStamp = (meta: SignatureMeta, invalid = false) =>
+  [
+    invalid ? "INVALIDATED - EDITED AFTER SIGNING" : null,
+    `Signed by ${meta.signerName.toUpperCase() || "-"}`,
+    new Date(meta.signedAt).toLocaleString(),
+    meta.location ? `GPS ${meta.location.lat.toFixed(5)}, ${meta.location.lng.toFixed(5)} ±${meta.location.accuracy}m` : null,
+    `SHA-256 ${meta.dataHash.slice(0, 16)}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
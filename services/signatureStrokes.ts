@@ -0,0 +1,93 @@
+import { SignaturePoint, SignatureVector } from "../types";
+
+type Point = { x: number; y: number };
+
+// trecho quadrático: de `from` a `to` puxado por `control`, com a espessura do ponto
+export interface StrokeSegment {
+  from: Point;
+  control: Point;
+  to: Point;
+  width: number;
+}
+
+const BASE_WIDTH = 2;
+export const INK_COLOR = "#111827"; // slate-900
+
+const mid = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+// ✅ pressão 0.5 (mouse/dedo sem pressão) = espessura base
+export const widthForPressure = (pressure: number) => BASE_WIDTH * (0.5 + Math.min(1, Math.max(0, pressure || 0.5)));
+
+/**
+ * Suaviza o traço: cada ponto vira o controle de uma curva entre os pontos
+ * médios vizinhos (sem os "cantos" dos segmentos retos).
+ */
+export const strokeSegments = (stroke: SignaturePoint[]): StrokeSegment[] => {
+  if (stroke.length === 0) return [];
+  if (stroke.length === 1) {
+    const p = stroke[0];
+    return [{ from: p, control: p, to: p, width: widthForPressure(p.pressure) }];
+  }
+
+  const segments: StrokeSegment[] = [];
+  let from: Point = stroke[0];
+  for (let i = 1; i < stroke.length - 1; i++) {
+    const to = mid(stroke[i], stroke[i + 1]);
+    segments.push({ from, control: stroke[i], to, width: widthForPressure(stroke[i].pressure) });
+    from = to;
+  }
+  const last = stroke[stroke.length - 1];
+  segments.push({ from, control: from, to: last, width: widthForPressure(last.pressure) });
+  return segments;
+};
+
+/** Desenha só estes trechos (o pad usa enquanto o traço cresce, sem limpar o canvas). */
+export const drawSegments = (ctx: CanvasRenderingContext2D, segments: StrokeSegment[], scale = 1) => {
+  ctx.save();
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  ctx.strokeStyle = INK_COLOR;
+  segments.forEach(({ from, control, to, width }) => {
+    ctx.lineWidth = width * scale;
+    ctx.beginPath();
+    ctx.moveTo(from.x * scale, from.y * scale);
+    ctx.quadraticCurveTo(control.x * scale, control.y * scale, to.x * scale, to.y * scale);
+    ctx.stroke();
+  });
+  ctx.restore();
+};
+
+/** Desenha os traços no canvas; `scale` converte px do pad para px do canvas. */
+export const drawStrokes = (ctx: CanvasRenderingContext2D, strokes: SignaturePoint[][], scale = 1) =>
+  strokes.forEach(stroke => drawSegments(ctx, strokeSegments(stroke), scale));
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+export const signatureToSvg = ({ width, height, strokes }: SignatureVector): string => {
+  const paths = strokes
+    .flatMap(strokeSegments)
+    .map(({ from, control, to, width: w }) =>
+      `<path d="M${round(from.x)} ${round(from.y)}Q${round(control.x)} ${round(control.y)} ${round(to.x)} ${round(to.y)}" stroke-width="${round(w)}"/>`
+    );
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${round(width)} ${round(height)}" width="${round(width)}" height="${round(height)}">`,
+    `<g fill="none" stroke="${INK_COLOR}" stroke-linecap="round" stroke-linejoin="round">`,
+    ...paths,
+    `</g></svg>`,
+  ].join("");
+};
+
+export const signatureToSvgDataUrl = (vector: SignatureVector) =>
+  `data:image/svg+xml;charset=utf-8,${encodeURIComponent(signatureToSvg(vector))}`;
+
+// caixa ocupada pela tinta: usada para centralizar a assinatura no PDF
+export const strokeBounds = (strokes: SignaturePoint[][]) => {
+  const points = strokes.flat();
+  if (!points.length) return null;
+  const pad = BASE_WIDTH * 1.5;
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const minX = Math.min(...xs) - pad;
+  const minY = Math.min(...ys) - pad;
+  return { x: minX, y: minY, width: Math.max(...xs) + pad - minX, height: Math.max(...ys) + pad - minY };
+};
@@ -0,0 +1,42 @@
+import { SavedTimesheet, TimesheetStatus } from "../types";
+
+// ✅ para onde cada status pode ir; "amended" = revisão substituída por uma emenda
+export const STATUS_TRANSITIONS: Record<TimesheetStatus, TimesheetStatus[]> = {
+  draft: ['awaiting_signature', 'signed'],
+  awaiting_signature: ['draft', 'signed'],
+  signed: ['submitted', 'amended'],
+  submitted: ['amended'],
+  amended: [],
+};
+
+// assinada em diante a folha não muda; mudar = emendar (nova revisão)
+const LOCKED_STATUSES: TimesheetStatus[] = ['signed', 'submitted', 'amended'];
+
+export class StatusTransitionError extends Error {
+  constructor(public from: TimesheetStatus, public to: TimesheetStatus) {
+    super(`A ${from} timesheet cannot become ${to}.`);
+    this.name = "StatusTransitionError";
+  }
+}
+
+// folhas salvas antes do status: as duas assinaturas = assinada
+export const statusOf = (entry: Pick<SavedTimesheet, 'status' | 'mySignature' | 'supervisorSignature'>): TimesheetStatus =>
+  entry.status ?? (entry.mySignature && entry.supervisorSignature ? 'signed' : 'draft');
+
+export const canTransition = (from: TimesheetStatus, to: TimesheetStatus) =>
+  from === to || STATUS_TRANSITIONS[from].includes(to);
+
+export const transitionStatus = <T extends SavedTimesheet>(entry: T, to: TimesheetStatus): T => {
+  const from = statusOf(entry);
+  if (!canTransition(from, to)) throw new StatusTransitionError(from, to);
+  return { ...entry, status: to };
+};
+
+export const isLockedStatus = (status: TimesheetStatus) => LOCKED_STATUSES.includes(status);
+
+/**
+ * Status de uma folha editável ao ser salva: assinaturas válidas das duas
+ * partes = assinada; sem outros erros = aguardando assinatura; senão rascunho.
+ */
+export const statusForSave = (fullySigned: boolean, hasErrors: boolean): TimesheetStatus =>
+  fullySigned ? 'signed' : hasErrors ? 'draft' : 'awaiting_signature';
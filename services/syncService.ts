@@ -0,0 +1,171 @@
+import { PhotoAttachment, SavedTimesheet } from "../types";
+import { sheetSnapshot } from "./draftStore";
+import { putHistoryEntry, searchHistory } from "./historyStore";
+import { archiveRevision } from "./revisionStore";
+import { allocateReservedSerial, isProvisionalSerial } from "./serialService";
+import { canTransition, isLockedStatus, statusOf } from "./statusService";
+
+const DELETED_KEY = 'aes_sync_deleted';
+const UPLOADED_PHOTOS_KEY = 'aes_sync_photos';
+
+const api = async (path: string, init?: RequestInit) => {
+  const res = await fetch(`/api${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...(init?.headers || {}) },
+  });
+  // ✅ 404 só é "já não existe" no DELETE; em GET/PUT é rota ausente e não pode contar como sincronizado
+  if (!res.ok && !(res.status === 404 && init?.method === "DELETE")) {
+    const txt = await res.text();
+    throw new Error(txt || `HTTP ${res.status}`);
+  }
+  return res;
+};
+
+const pendingDeletes = (): string[] => JSON.parse(localStorage.getItem(DELETED_KEY) || "[]");
+
+const setPendingDeletes = (ids: string[]) => {
+  if (ids.length) localStorage.setItem(DELETED_KEY, JSON.stringify(ids));
+  else localStorage.removeItem(DELETED_KEY);
+};
+
+const uploadedPhotos = (): string[] => JSON.parse(localStorage.getItem(UPLOADED_PHOTOS_KEY) || "[]");
+
+const markPhotosUploaded = (ids: string[]) => {
+  if (ids.length) localStorage.setItem(UPLOADED_PHOTOS_KEY, JSON.stringify(Array.from(new Set([...uploadedPhotos(), ...ids]))));
+};
+
+// ✅ foto vai sozinha para /api/photos (uma vez por id); a folha leva só a referência
+const uploadPhotos = async (photos: PhotoAttachment[]) => {
+  const done = new Set(uploadedPhotos());
+  for (const photo of photos) {
+    if (!photo.dataUrl || done.has(photo.id)) continue;
+    await api(`/photos/${encodeURIComponent(photo.id)}`, { method: "PUT", body: JSON.stringify({ dataUrl: photo.dataUrl }) });
+    markPhotosUploaded([photo.id]);
+  }
+};
+
+// folha baixada: imagem que já existe aqui não baixa de novo
+const withPhotoData = async (entry: SavedTimesheet, mine?: SavedTimesheet): Promise<SavedTimesheet> => {
+  if (!entry.photos?.length) return entry;
+  const known = new Map((mine?.photos ?? []).filter(p => p.dataUrl).map(p => [p.id, p.dataUrl]));
+  const photos: PhotoAttachment[] = [];
+  for (const photo of entry.photos) {
+    const dataUrl = known.get(photo.id) ?? (await (await api(`/photos/${encodeURIComponent(photo.id)}`)).json()).dataUrl;
+    photos.push({ ...photo, dataUrl });
+  }
+  markPhotosUploaded(photos.map(p => p.id));
+  return { ...entry, photos };
+};
+
+// ✅ folha travada aqui só é trocada por revisão maior, ou pela mesma avançando de status (assinada → enviada)
+const mayOverwrite = (mine: SavedTimesheet, remote: SavedTimesheet) => {
+  if (!isLockedStatus(statusOf(mine))) return true;
+  const mineRevision = mine.revision ?? 1;
+  const remoteRevision = remote.revision ?? 1;
+  if (remoteRevision !== mineRevision) return remoteRevision > mineRevision;
+  return canTransition(statusOf(mine), statusOf(remote)) && JSON.stringify(remote.data) === JSON.stringify(mine.data);
+};
+
+// ✅ envia um SavedTimesheet (upsert) e marca como sincronizado no IndexedDB
+export const pushTimesheet = async (entry: SavedTimesheet): Promise<SavedTimesheet> => {
+  await uploadPhotos(entry.photos ?? []);
+  const { syncedAt, ...payload } = entry;
+  const body = { ...payload, photos: payload.photos?.map(photo => ({ ...photo, dataUrl: "" })) };
+  await api(`/timesheets/${encodeURIComponent(entry.id)}`, { method: "PUT", body: JSON.stringify(body) });
+  const synced = { ...entry, syncedAt: Date.now() };
+  await putHistoryEntry(synced);
+  return synced;
+};
+
+export const deleteRemoteTimesheet = async (id: string) => {
+  try {
+    await api(`/timesheets/${encodeURIComponent(id)}`, { method: "DELETE" });
+  } catch (err) {
+    // offline: tenta de novo no próximo sync
+    setPendingDeletes(Array.from(new Set([...pendingDeletes(), id])));
+    throw err;
+  }
+};
+
+// ✅ troca o serial provisório (feito offline) por um da faixa; guarda o antigo em provisionalSerial
+const reconcileProvisionalSerials = async (entries: SavedTimesheet[]): Promise<SavedTimesheet[]> => {
+  const result: SavedTimesheet[] = [];
+  for (const entry of entries) {
+    const serial = isProvisionalSerial(entry.serial) ? await allocateReservedSerial() : null;
+    if (serial === null) {
+      result.push(entry);
+      continue;
+    }
+    const reconciled = { ...entry, serial, provisionalSerial: String(entry.serial), timestamp: Date.now() };
+    await putHistoryEntry(reconciled);
+    result.push(reconciled);
+  }
+  return result;
+};
+
+/**
+ * Sincroniza nos dois sentidos: apaga pendências, envia o que mudou aqui
+ * e baixa o que só existe (ou está mais novo) no servidor.
+ * Retorna quantos registros locais foram alterados.
+ */
+export const syncHistory = async (): Promise<number> => {
+  const deletes = pendingDeletes();
+  const stillPending: string[] = [];
+  for (const id of deletes) {
+    try {
+      await api(`/timesheets/${encodeURIComponent(id)}`, { method: "DELETE" });
+    } catch {
+      stillPending.push(id);
+    }
+  }
+  setPendingDeletes(stillPending);
+
+  const res = await api("/timesheets");
+  const remote: SavedTimesheet[] = await res.json();
+  if (!Array.isArray(remote)) throw new Error("Unexpected /api/timesheets response");
+  const local = await reconcileProvisionalSerials(await searchHistory({}));
+  const localById = new Map<string, SavedTimesheet>(local.map(e => [e.id, e]));
+  const remoteById = new Map<string, SavedTimesheet>(remote.map(e => [e.id, e]));
+  let changed = 0;
+
+  for (const entry of local) {
+    const server = remoteById.get(entry.id);
+    // provisório que ainda não conseguiu serial fica só aqui até o próximo sync
+    if (isProvisionalSerial(entry.serial)) continue;
+    const dirty = !entry.syncedAt || entry.syncedAt < entry.timestamp;
+    if (!dirty || (server && server.timestamp > entry.timestamp)) continue;
+    // uma folha que falha (foto grande, erro do servidor) não trava as outras
+    try {
+      await pushTimesheet(entry);
+      changed++;
+    } catch (err) {
+      console.warn(`Sync push failed for ${entry.id}:`, err);
+    }
+  }
+
+  for (const entry of remote) {
+    if (stillPending.includes(entry.id)) continue;
+    const mine = localById.get(entry.id);
+    if (mine && (entry.timestamp <= mine.timestamp || !mayOverwrite(mine, entry))) continue;
+    try {
+      const pulled = await withPhotoData(entry, mine);
+      const mineRevision = mine?.revision ?? 1;
+      let renumbered = false;
+      // ✅ a versão local não some: vira revisão antes de ser substituída pela do servidor
+      if (mine && (mineRevision !== (pulled.revision ?? 1) || sheetSnapshot(mine) !== sheetSnapshot(pulled))) {
+        await archiveRevision(mine);
+        // editada nos dois aparelhos com o mesmo número: a do servidor passa a ser a seguinte,
+        // para não dividir a chave com a arquivada, e volta ao servidor com esse número no próximo sync
+        renumbered = (pulled.revision ?? 1) <= mineRevision;
+      }
+      await putHistoryEntry(renumbered
+        ? { ...pulled, revision: mineRevision + 1, syncedAt: undefined }
+        : { ...pulled, syncedAt: Date.now() });
+      changed++;
+    } catch (err) {
+      console.warn(`Sync pull failed for ${entry.id}:`, err);
+    }
+  }
+
+  return changed;
+};
@@ -0,0 +1,88 @@
+import { LabourRow, TimesheetData } from "../types";
+
+// ✅ Parse time inputs like "7:30", "07:30", "7.5" (hours), "7"
+export const parseToMinutes = (value: string): number | null => {
+  const v = (value || "").trim();
+  if (!v) return null;
+
+  // HH:MM
+  if (v.includes(":")) {
+    const [hStr, mStr] = v.split(":");
+    const h = Number(hStr);
+    const m = Number(mStr);
+    if (!Number.isFinite(h) || !Number.isFinite(m)) return null;
+    if (m < 0 || m >= 60) return null;
+    return Math.round(h * 60 + m);
+  }
+
+  // Decimal hours (e.g. 7.5) or integer (e.g. 8)
+  const hours = Number(v.replace(",", "."));
+  if (!Number.isFinite(hours)) return null;
+  return Math.round(hours * 60);
+};
+
+// ✅ Format minutes to decimal hours string (e.g. 450 -> "7.5", 480 -> "8")
+export const minutesToHoursString = (mins: number): string => {
+  const hours = mins / 60;
+  const fixed = hours.toFixed(2);
+  // remove trailing zeros
+  return fixed.replace(/\.00$/, "").replace(/(\.\d)0$/, "$1");
+};
+
+type ShiftTimes = {
+  startTime: string;
+  finishTime: string;
+  breakTime: string;
+  travelTime: string;
+};
+
+/**
+ * (Finish - Start) - Break (+ Travel quando includeTravel).
+ * Retorna null se start/finish não forem válidos.
+ */
+export const calculateShiftMinutes = (shift: ShiftTimes, includeTravel: boolean): number | null => {
+  const startMins = parseToMinutes(shift.startTime || "");
+  const finishMins = parseToMinutes(shift.finishTime || "");
+  if (startMins === null || finishMins === null) return null;
+
+  // if finish < start, assume crossed midnight
+  let diff = finishMins - startMins;
+  if (diff < 0) diff += 24 * 60;
+
+  const breakMins = parseToMinutes(shift.breakTime || "") ?? 0;
+  const travelMins = includeTravel ? parseToMinutes(shift.travelTime || "") ?? 0 : 0;
+  return Math.max(0, diff - breakMins) + travelMins;
+};
+
+const shiftTotal = (shift: ShiftTimes, includeTravel: boolean, current: string) => {
+  const mins = calculateShiftMinutes(shift, includeTravel);
+  return mins === null ? current : minutesToHoursString(mins);
+};
+
+/**
+ * Recalcula o TOTAL do supervisor e de cada labourer. Linhas sem start/finish
+ * válidos mantêm o valor digitado. Retorna o mesmo objeto se nada mudou.
+ */
+export const applyCalculatedTotals = (data: TimesheetData): TimesheetData => {
+  const totalTime = shiftTotal(data, data.includeTravel, data.totalTime || "");
+
+  let labourChanged = false;
+  const labour = data.labour.map((row): LabourRow => {
+    const total = shiftTotal(row, data.includeTravel, row.totalTime || "");
+    if (total === (row.totalTime || "")) return row;
+    labourChanged = true;
+    return { ...row, totalTime: total };
+  });
+
+  if (totalTime === (data.totalTime || "") && !labourChanged) return data;
+  return { ...data, totalTime, labour: labourChanged ? labour : data.labour };
+};
+
+export const isCalculatedTotal = (shift: ShiftTimes) =>
+  parseToMinutes(shift.startTime || "") !== null && parseToMinutes(shift.finishTime || "") !== null;
+
+// ✅ Soma os TOTAL do supervisor + equipe (crew grand total)
+export const calculateCrewMinutes = (data: TimesheetData): number => {
+  const totals = [data.totalTime, ...data.labour.map(row => row.totalTime)];
+  return totals.reduce((sum, total) => sum + (parseToMinutes(total || "") ?? 0), 0);
+};
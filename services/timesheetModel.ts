@@ -0,0 +1,140 @@
+import { CatalogueItem, ItemCategory, LabourRow, TimesheetData, TimesheetItem, WasteRecord } from "../types";
+import { DEFAULT_CATALOGUE, findCatalogueItem } from "./catalogueService";
+
+export const TIMESHEET_VERSION = 2;
+export const LABOUR_ROW_COUNT = 8;
+export const WASTE_WEIGHT_SLOTS = 5;
+
+export const WASTE_TYPES = ['Asbestos', 'Asbestos Soil', 'Lead', 'GSW', 'Brick/concrete', 'Other'];
+export const WASTE_FACILITIES = ['SUEZ', 'Kimbriki', 'DADI', 'Other:'];
+
+export const newId = () => Math.random().toString(36).substr(2, 9);
+
+export const createLabourRow = (): LabourRow => ({
+  name: "",
+  startTime: "",
+  finishTime: "",
+  travelTime: "",
+  breakTime: "",
+  totalTime: "",
+  allowances: "",
+});
+
+export const createWasteRecord = (): WasteRecord => ({
+  types: [],
+  weightsKg: Array(WASTE_WEIGHT_SLOTS).fill(""),
+  facilities: [],
+  otherFacility: "",
+});
+
+export const createEmptyTimesheet = (): TimesheetData => ({
+  version: TIMESHEET_VERSION,
+  description: "",
+  client: "",
+  contactName: "",
+  contactNumber: "",
+  contactEmail: "",
+  address: "",
+  jobId: "",
+  clientPoNumber: "",
+  quoted: false,
+  rates: false,
+  date: "",
+  supervisorName: "",
+  clientRepName: "",
+  startTime: "",
+  finishTime: "",
+  travelTime: "",
+  breakTime: "",
+  totalTime: "",
+  includeTravel: false,
+  supervisorAllowances: "",
+  notes: "",
+  labour: Array.from({ length: LABOUR_ROW_COUNT }, createLabourRow),
+  items: [],
+  waste: createWasteRecord(),
+});
+
+export const categoriseItem = (description: string, catalogue: CatalogueItem[] = DEFAULT_CATALOGUE): ItemCategory =>
+  findCatalogueItem(catalogue, description)?.category ?? 'other';
+
+const LEGACY_LABOUR_FIELDS: Record<string, keyof LabourRow> = {
+  N: 'name',
+  S: 'startTime',
+  F: 'finishTime',
+  T: 'travelTime',
+  TOT: 'totalTime',
+  A: 'allowances',
+};
+
+// ✅ Converte as chaves mágicas antigas de `items` (L_N_3, waste_type_Lead, Env_Other_7...)
+const migrateLegacyItems = (legacyItems: any[], target: TimesheetData, catalogue: CatalogueItem[]) => {
+  const others: [number, TimesheetItem][] = [];
+
+  for (const raw of legacyItems) {
+    const key = String(raw?.description ?? "");
+    const value = String(raw?.quantity ?? "");
+    let match: RegExpMatchArray | null;
+
+    if ((match = key.match(/^L_(N|S|F|TOT|T|A)_(\d+)$/))) {
+      const idx = Number(match[2]);
+      while (target.labour.length <= idx) target.labour.push(createLabourRow());
+      target.labour[idx][LEGACY_LABOUR_FIELDS[match[1]]] = value;
+    } else if (key === 'quoted' || key === 'rates') {
+      target[key] = value === 'X';
+    } else if (key === 'client_po') {
+      target.clientPoNumber = value;
+    } else if (key === 'Supervisor Allowances') {
+      target.supervisorAllowances = value;
+    } else if ((match = key.match(/^waste_type_(.+)$/))) {
+      if (value === 'X') target.waste.types.push(match[1]);
+    } else if ((match = key.match(/^waste_fac_(.+)$/))) {
+      if (value === 'X') target.waste.facilities.push(match[1]);
+    } else if ((match = key.match(/^Waste_KG_(\d+)$/))) {
+      target.waste.weightsKg[Number(match[1]) - 1] = value;
+    } else if (key === 'Waste_Fac_Other') {
+      target.waste.otherFacility = value;
+    } else if ((match = key.match(/^Env_Other_(\d+)$/))) {
+      if (value) others.push([Number(match[1]), { id: newId(), category: 'other', description: "", quantity: value }]);
+    } else if (key && value) {
+      target.items.push({
+        id: raw.id ? String(raw.id) : newId(),
+        category: categoriseItem(key, catalogue),
+        description: key,
+        quantity: value,
+        unit: raw.unit,
+      });
+    }
+  }
+
+  others.sort((a, b) => a[0] - b[0]).forEach(([, item]) => target.items.push(item));
+};
+
+/**
+ * Normaliza qualquer TimesheetData (histórico antigo do localStorage,
+ * resposta da extração ou versão atual) para o modelo tipado.
+ */
+export const migrateTimesheetData = (raw: any, catalogue: CatalogueItem[] = DEFAULT_CATALOGUE): TimesheetData => {
+  const base = createEmptyTimesheet();
+  if (!raw || typeof raw !== "object") return base;
+
+  const { items, labour, waste, ...rest } = raw;
+  const result: TimesheetData = { ...base, ...rest, version: TIMESHEET_VERSION };
+
+  if (Array.isArray(labour)) {
+    result.labour = labour.map((row: any) => ({ ...createLabourRow(), ...row }));
+    while (result.labour.length < LABOUR_ROW_COUNT) result.labour.push(createLabourRow());
+    result.items = Array.isArray(items)
+      ? items.map((item: any) => ({
+          ...item,
+          id: item.id || newId(),
+          category: item.category || categoriseItem(item.description, catalogue),
+        }))
+      : [];
+    result.waste = { ...createWasteRecord(), ...waste };
+  } else {
+    migrateLegacyItems(Array.isArray(items) ? items : [], result, catalogue);
+  }
+
+  return result;
+};
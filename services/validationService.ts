@@ -0,0 +1,185 @@
+import { FieldConfidence, SignatureRole, TimesheetData, ValidationIssue, ValidationSeverity } from "../types";
+import { calculateShiftMinutes, minutesToHoursString, parseToMinutes } from "./timeEngine";
+import { MessageKey, t } from "./i18n";
+
+export interface ValidationInput {
+  data: TimesheetData;
+  mySignature: string | null;
+  supervisorSignature: string | null;
+  invalidSignatures?: SignatureRole[]; // folha editada depois de assinar
+}
+
+const REQUIRED_FIELDS: [keyof TimesheetData, MessageKey, ValidationSeverity][] = [
+  ['client', 'field.client', 'error'],
+  ['jobId', 'field.jobNo', 'error'],
+  ['date', 'field.date', 'error'],
+  ['address', 'field.address', 'error'],
+  ['supervisorName', 'field.supervisorName', 'error'],
+  ['clientRepName', 'field.clientRepName', 'error'],
+  ['description', 'field.description', 'warning'],
+  ['contactNumber', 'field.phone', 'warning'],
+];
+
+const DAY_MINUTES = 24 * 60;
+
+// ✅ abaixo disso o valor lido pela IA fica marcado até o supervisor confirmar
+export const LOW_CONFIDENCE = 0.8;
+
+const CONFIDENCE_LABELS: Record<string, MessageKey> = {
+  description: 'field.description',
+  client: 'field.client',
+  contactName: 'field.contactName',
+  contactNumber: 'field.phone',
+  contactEmail: 'field.contactEmail',
+  address: 'field.address',
+  jobId: 'field.jobNo',
+};
+
+export const needsConfirmation = (confidence?: FieldConfidence) =>
+  !!confidence && !confidence.confirmed && confidence.score < LOW_CONFIDENCE;
+
+const isBlank = (value: unknown) => !String(value ?? "").trim();
+
+export const isEmail = (value: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value.trim());
+
+const isNumeric = (value: string) => Number.isFinite(Number(value.trim().replace(",", ".")));
+
+type Params = Record<string, string | number>;
+
+// quem está no turno: nome digitado, ou rótulo traduzido na hora de mostrar
+type Who = { who: string } | { whoKey: MessageKey; n?: number };
+
+type ShiftFields = {
+  startTime: string;
+  finishTime: string;
+  travelTime: string;
+  breakTime: string;
+  totalTime: string;
+};
+
+/**
+ * Regras da folha: campos obrigatórios, formato de horário, consistência
+ * dos TOTAL com start/finish/break e presença das assinaturas.
+ */
+export const validateTimesheet = ({ data, mySignature, supervisorSignature, invalidSignatures = [] }: ValidationInput): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const add = (field: string, severity: ValidationSeverity, message: MessageKey, params?: Params, labels?: Record<string, MessageKey>) =>
+    issues.push({ field, severity, message, params, labels });
+
+  for (const [field, label, severity] of REQUIRED_FIELDS) {
+    if (isBlank(data[field])) add(field, severity, severity === 'error' ? 'validation.required' : 'validation.empty', undefined, { label });
+  }
+
+  if (!isBlank(data.contactEmail) && !isEmail(data.contactEmail)) {
+    add('contactEmail', 'warning', 'validation.email', { value: data.contactEmail });
+  }
+
+  // rótulo do turno (supervisor / trabalhador sem nome) vai em `labels`, o nome digitado em `params`
+  const addFor = (who: Who, field: string, severity: ValidationSeverity, message: MessageKey, params: Params = {}, labels: Record<string, MessageKey> = {}) =>
+    'who' in who
+      ? add(field, severity, message, { ...params, who: who.who }, labels)
+      : add(field, severity, message, { ...params, ...(who.n ? { n: who.n } : {}) }, { ...labels, who: who.whoKey });
+
+  const checkClock = (who: Who, field: string, label: MessageKey, value: string, required: boolean) => {
+    if (isBlank(value)) {
+      if (required) addFor(who, field, 'error', 'validation.timeRequired', {}, { label });
+      return;
+    }
+    const mins = parseToMinutes(value);
+    if (mins === null || mins < 0 || mins > DAY_MINUTES) addFor(who, field, 'error', 'validation.clock', { value }, { label });
+  };
+
+  const checkDuration = (who: Who, field: string, label: MessageKey, value: string) => {
+    if (isBlank(value)) return;
+    const mins = parseToMinutes(value);
+    if (mins === null || mins < 0) addFor(who, field, 'error', 'validation.duration', { value }, { label });
+  };
+
+  const checkShift = (prefix: string, who: Who, shift: ShiftFields, required: boolean) => {
+    checkClock(who, `${prefix}startTime`, 'validation.time.start', shift.startTime, required);
+    checkClock(who, `${prefix}finishTime`, 'validation.time.finish', shift.finishTime, required);
+    checkDuration(who, `${prefix}travelTime`, 'validation.time.travel', shift.travelTime);
+    checkDuration(who, `${prefix}breakTime`, 'validation.time.break', shift.breakTime);
+
+    const calculated = calculateShiftMinutes(shift, data.includeTravel);
+    if (calculated === null) {
+      if (!isBlank(shift.totalTime)) addFor(who, `${prefix}totalTime`, 'warning', 'validation.totalUnchecked');
+      return;
+    }
+
+    const span = calculateShiftMinutes({ ...shift, breakTime: "", travelTime: "" }, false) ?? 0;
+    const breakMins = parseToMinutes(shift.breakTime || "") ?? 0;
+    if (breakMins > span) addFor(who, `${prefix}breakTime`, 'warning', 'validation.breakTooLong');
+
+    const typed = parseToMinutes(shift.totalTime || "");
+    if (typed !== calculated) {
+      addFor(who, `${prefix}totalTime`, 'error', 'validation.totalMismatch', { hours: minutesToHoursString(calculated) });
+    }
+  };
+
+  checkShift("", { whoKey: 'validation.who.supervisor' }, data, true);
+
+  data.labour.forEach((row, i) => {
+    const who: Who = row.name.trim() ? { who: row.name.trim() } : { whoKey: 'validation.who.labourer', n: i + 1 };
+    const hasTimes = [row.startTime, row.finishTime, row.travelTime, row.breakTime, row.totalTime].some(v => !isBlank(v));
+    if (isBlank(row.name)) {
+      if (hasTimes) add(`labour.${i}.name`, 'warning', 'validation.labourNoName', { n: i + 1 });
+      else return;
+    }
+    checkShift(`labour.${i}.`, who, row, !isBlank(row.name));
+  });
+
+  data.items.forEach(item => {
+    if (!isBlank(item.quantity) && !isNumeric(item.quantity)) {
+      if (item.description) add(`items.${item.id}`, 'warning', 'validation.quantity', { value: item.quantity, item: item.description });
+      else add(`items.${item.id}`, 'warning', 'validation.quantity', { value: item.quantity }, { item: 'validation.other' });
+    }
+    if (item.category === 'other' && !isBlank(item.quantity) && isBlank(item.description)) {
+      add(`items.${item.id}`, 'warning', 'validation.otherNoDescription');
+    }
+  });
+
+  data.waste.weightsKg.forEach((kg, i) => {
+    if (!isBlank(kg) && !isNumeric(kg)) add(`waste.weightsKg.${i}`, 'warning', 'validation.wasteWeight', { value: kg });
+  });
+  if (data.waste.types.length > 0 && data.waste.weightsKg.every(isBlank)) {
+    add('waste.weightsKg.0', 'warning', 'validation.wasteNoWeight');
+  }
+  if (data.waste.facilities.includes('Other:') && isBlank(data.waste.otherFacility)) {
+    add('waste.otherFacility', 'warning', 'validation.otherFacility');
+  }
+
+  Object.entries(data.confidence || {}).forEach(([field, confidence]) => {
+    if (!needsConfirmation(confidence)) return;
+    const score = Math.round(confidence.score * 100);
+    if (field.startsWith('items.')) {
+      const item = data.items.find(i => `items.${i.id}` === field);
+      if (!item) return;
+      if (item.description) add(field, 'warning', 'validation.lowConfidence', { score, label: item.description });
+      else add(field, 'warning', 'validation.lowConfidence', { score }, { label: 'validation.otherItem' });
+      return;
+    }
+    const label = CONFIDENCE_LABELS[field];
+    if (label) add(field, 'warning', 'validation.lowConfidence', { score }, { label });
+  });
+
+  if (!supervisorSignature) add('signature.supervisor', 'error', 'validation.signatureMissing', undefined, { label: 'field.supervisorSignature' });
+  if (!mySignature) add('signature.client', 'error', 'validation.signatureMissing', undefined, { label: 'field.clientSignature' });
+  if (supervisorSignature && invalidSignatures.includes('supervisor')) {
+    add('signature.supervisor', 'error', 'validation.signatureInvalidated', undefined, { label: 'field.supervisorSignature' });
+  }
+  if (mySignature && invalidSignatures.includes('client')) {
+    add('signature.client', 'error', 'validation.signatureInvalidated', undefined, { label: 'field.clientSignature' });
+  }
+
+  return issues;
+};
+
+// ✅ texto do aviso no idioma atual: rótulos traduzidos primeiro, depois entram na mensagem
+export const issueMessage = (issue?: ValidationIssue): string | undefined => {
+  if (!issue) return undefined;
+  const labels = Object.fromEntries(Object.entries(issue.labels ?? {}).map(([name, key]) => [name, t(key, issue.params)]));
+  return t(issue.message, { ...issue.params, ...labels });
+};
+
+export const validationErrors = (issues: ValidationIssue[]) => issues.filter(i => i.severity === 'error');
@@ -1,32 +1,218 @@
+import type { MessageKey } from "./services/i18n/en";
 
 export interface TimesheetData {
+  version: number;
   description: string;
   client: string;
+  contactName: string;
   contactNumber: string;
+  contactEmail: string;
   address: string;
   jobId: string;
+  clientPoNumber: string;
+  quoted: boolean;
+  rates: boolean;
   date: string;
   supervisorName: string;
   clientRepName: string;
   startTime: string;
   finishTime: string;
   travelTime: string;
+  breakTime: string;
   totalTime: string;
+  includeTravel: boolean;
+  supervisorAllowances: string;
   notes: string;
+  labour: LabourRow[];
   items: TimesheetItem[];
+  waste: WasteRecord;
+  confidence?: Record<string, FieldConfidence>;
+  dateFormat?: SheetDateFormat; // formato vigente quando a folha foi criada; ausente = leitura padrão (DD/MM)
 }
 
+// ✅ locale + padrão ("DD/MM/YYYY") da data impressa
+export interface SheetDateFormat {
+  locale: string;
+  pattern: string;
+}
+
+// ✅ confiança da extração por campo (chave igual à da validação: 'jobId', 'items.<id>')
+export interface FieldConfidence {
+  score: number;
+  source?: string;
+  confirmed?: boolean;
+}
+
+// ✅ ciclo de vida do documento (AppState é só a tela)
+export type TimesheetStatus = 'draft' | 'awaiting_signature' | 'signed' | 'submitted' | 'amended';
+
+// ✅ número = serial definitivo (faixa do servidor); texto = provisório do aparelho, trocado no sync
+export type SheetSerial = number | string;
+
+export interface SavedTimesheet {
+  id: string;
+  serial: SheetSerial;
+  provisionalSerial?: string; // o provisório que saiu impresso antes da troca
+  status?: TimesheetStatus;
+  revision?: number; // 1 = original; emendas somam 1 e guardam a anterior em revisions
+  data: TimesheetData;
+  timestamp: number;
+  mySignature: string | null;
+  supervisorSignature: string | null;
+  photos?: PhotoAttachment[];
+  printPhotos?: boolean;
+  signatureMeta?: SignatureMetaMap;
+  signatureVectors?: SignatureVectorMap;
+  syncedAt?: number;
+}
+
+// ✅ folha em edição salva a cada mudança; id = folha salva, job ou sessão
+export interface TimesheetDraft {
+  id: string;
+  sheetId: string | null;
+  serial: SheetSerial | null;
+  status: TimesheetStatus;
+  revision: number;
+  data: TimesheetData;
+  mySignature: string | null;
+  supervisorSignature: string | null;
+  photos: PhotoAttachment[];
+  printPhotos: boolean;
+  signatureMeta: SignatureMetaMap;
+  signatureVectors: SignatureVectorMap;
+  queuedScanId: string | null;
+  updatedAt: number;
+}
+
+export type SignatureRole = 'client' | 'supervisor';
+
+// ✅ quem assinou, quando, onde e o hash da folha no momento da assinatura
+export interface SignatureMeta {
+  signerName: string;
+  signedAt: number;
+  dataHash: string;
+  hashVersion?: number; // campos cobertos pelo hash; ausente = 0 (folha inteira, antes da versão)
+  location?: GeoPoint;
+}
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+  accuracy: number;
+}
+
+export type SignatureMetaMap = Partial<Record<SignatureRole, SignatureMeta>>;
+
+// ✅ traço da assinatura em vetor: pontos em px do pad, pressão 0..1, t em ms desde o 1º traço
+export interface SignaturePoint {
+  x: number;
+  y: number;
+  pressure: number;
+  t: number;
+}
+
+export interface SignatureVector {
+  width: number;
+  height: number;
+  strokes: SignaturePoint[][];
+}
+
+export type SignatureVectorMap = Partial<Record<SignatureRole, SignatureVector>>;
+
+// ✅ foto de evidência (antes/depois, sacos de lixo, ticket da balança)
+export interface PhotoAttachment {
+  id: string;
+  dataUrl: string;
+  caption: string;
+  takenAt: number;
+}
+
+export type QueuedScanStatus = 'pending' | 'done' | 'failed';
+
+export interface QueuedScan {
+  id: string;
+  images: string[];
+  createdAt: number;
+  status: QueuedScanStatus;
+  result?: TimesheetData;
+  error?: string;
+}
+
+export interface HistoryFilter {
+  client?: string;
+  jobId?: string;
+  serial?: string;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export interface LabourRow {
+  name: string;
+  startTime: string;
+  finishTime: string;
+  travelTime: string;
+  breakTime: string;
+  totalTime: string;
+  allowances: string;
+}
+
+export type ItemCategory = 'material' | 'plant' | 'environmental' | 'other';
+
 export interface TimesheetItem {
   id: string;
+  category: ItemCategory;
   description: string;
   quantity: string;
   unit?: string;
 }
 
+export type CatalogueCategory = Exclude<ItemCategory, 'other'>;
+
+export interface CatalogueItem {
+  id: string;
+  name: string;
+  category: CatalogueCategory;
+  unit: string;
+  order: number;
+  active: boolean;
+  aliases?: string[];
+}
+
+export interface WasteRecord {
+  types: string[];
+  weightsKg: string[];
+  facilities: string[];
+  otherFacility: string;
+}
+
+export interface SupervisorProfile {
+  id: string;
+  name: string;
+  startTime: string;
+  finishTime: string;
+  breakTime: string;
+  signature: string | null;
+  signatureVector?: SignatureVector | null;
+  crew: string[];
+}
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  field: string;
+  severity: ValidationSeverity;
+  message: MessageKey; // traduzida só na hora de mostrar (issueMessage)
+  params?: Record<string, string | number>;
+  labels?: Record<string, MessageKey>; // params que também são chaves de tradução
+}
+
 export enum AppState {
   IDLE = 'IDLE',
   SCANNING = 'SCANNING',
   EDITING = 'EDITING',
   SIGNING = 'SIGNING',
-  COMPLETED = 'COMPLETED'
+  COMPLETED = 'COMPLETED',
+  SETTINGS = 'SETTINGS',
+  PROFILES = 'PROFILES',
+  REPORTS = 'REPORTS'
 }
@@ -1,6 +1,25 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { apiDevServer } from './api/_lib/devServer';
+
+// ✅ lista os arquivos do build (nomes com hash) para o service worker guardar na instalação
+const swPrecache = (): Plugin => ({
+  name: 'sw-precache',
+  apply: 'build',
+  generateBundle(_options, bundle) {
+    const files = Object.keys(bundle)
+      .filter(name => /\.(js|css|woff2)$/.test(name))
+      .map(name => `/${name}`);
+    const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 8);
+    this.emitFile({
+      type: 'asset',
+      fileName: 'sw-assets.js',
+      source: `self.BUILD_VERSION = ${JSON.stringify(version)};\nself.BUILD_ASSETS = ${JSON.stringify(files)};\n`,
+    });
+  },
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +28,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), apiDevServer(env), swPrecache()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)